@@ -1,9 +1,90 @@
-import type { CrossPost, PlatformName, PostResult } from "../core/types.js";
+import type { CrossPost, PlatformName, PostResult, TargetKey } from "../core/types.js";
 
 export interface PlatformAdapter {
   readonly name: PlatformName;
+  /** Key of the configured instance; rows in `platform_results` and the queue are per target. */
+  readonly target: TargetKey;
   init(): Promise<void>;
   post(post: CrossPost): Promise<PostResult>;
-  delete(sourceUri: string): Promise<void>;
+  /**
+   * Applies an edited source post to the already published copy. Adapters without native
+   * editing leave this out and the worker applies EDIT_FALLBACK_POLICY instead.
+   */
+  edit?(post: CrossPost): Promise<PostResult>;
+  /** Deletes the recorded copy, or only `remoteIds` when given. */
+  delete(sourceUri: string, remoteIds?: string[]): Promise<void>;
+  /**
+   * Cheap authenticated probe for targets whose credentials can silently expire. Throws
+   * `SessionExpiredError` when the session is no longer usable.
+   */
+  checkSession?(): Promise<void>;
   destroy(): Promise<void>;
 }
+
+/**
+ * Thrown when a target's rolling 24h write budget has no room for a post. The worker
+ * re-queues the job at `priority` until `forecastAt` instead of counting it as a failure.
+ */
+export class DailyLimitError extends Error {
+  readonly delayMs: number;
+  readonly forecastAt: Date;
+  readonly currentCount: number;
+  readonly limit: number;
+  readonly attemptedPosts: number;
+  readonly priority: number;
+
+  constructor(
+    message: string,
+    params: { currentCount: number; limit: number; attemptedPosts: number; priority: number; forecastAt: Date }
+  ) {
+    super(message);
+    this.name = "DailyLimitError";
+    this.forecastAt = params.forecastAt;
+    this.delayMs = Math.max(0, params.forecastAt.getTime() - Date.now());
+    this.currentCount = params.currentCount;
+    this.limit = params.limit;
+    this.attemptedPosts = params.attemptedPosts;
+    this.priority = params.priority;
+  }
+}
+
+/**
+ * Thrown when a post is deliberately not published, e.g. because it missed its max-age
+ * deadline. The worker records it as cancelled instead of failed.
+ */
+export class PostDroppedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PostDroppedError";
+  }
+}
+
+/**
+ * Thrown when a target's login session is no longer accepted. The worker pauses the target's
+ * queue and alerts instead of burning retries; the session monitor resumes it once a probe
+ * succeeds again.
+ */
+export class SessionExpiredError extends Error {
+  readonly statusCode?: number;
+
+  constructor(message: string, params: { statusCode?: number } = {}) {
+    super(message);
+    this.name = "SessionExpiredError";
+    this.statusCode = params.statusCode;
+  }
+}
+
+/**
+ * Thrown when a reply's parent is still waiting in its own job (e.g. held back by the
+ * budget). The worker re-queues the reply behind the parent, at `retryAt` when known,
+ * instead of spending its attempts.
+ */
+export class DependencyNotReadyError extends Error {
+  readonly retryAt?: Date;
+
+  constructor(message: string, params: { retryAt?: Date } = {}) {
+    super(message);
+    this.name = "DependencyNotReadyError";
+    this.retryAt = params.retryAt;
+  }
+}
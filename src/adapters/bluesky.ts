@@ -1,108 +1,196 @@
-import { AtpAgent } from "@atproto/api";
+import { AtpAgent, ComAtprotoRepoGetRecord } from "@atproto/api";
 import { env } from "../config/env.js";
 import { logger } from "../config/logger.js";
+import type { BlueskyAccountConfig } from "../config/accounts.js";
+
+export type PostExistence = "exists" | "deleted" | "unknown";
 
 export class BlueskySourceAdapter {
   private readonly log = logger.child({ module: "adapters/bluesky" });
+  private readonly config: BlueskyAccountConfig;
   readonly agent: AtpAgent;
   private selfDid: string | null = null;
 
-  constructor() {
+  constructor(config: BlueskyAccountConfig) {
+    this.config = config;
     this.agent = new AtpAgent({
-      service: env.BLUESKY_SERVICE
+      service: config.service
     });
   }
 
   async init(): Promise<void> {
     await this.agent.login({
-      identifier: env.BLUESKY_IDENTIFIER,
-      password: env.BLUESKY_PASSWORD
+      identifier: this.config.identifier,
+      password: this.config.password
     });
 
     const profile = await this.agent.getProfile({
-      actor: env.BLUESKY_IDENTIFIER
+      actor: this.config.identifier
     });
 
     this.selfDid = profile.data.did;
 
     this.log.info(
       {
-        service: env.BLUESKY_SERVICE,
+        service: this.config.service,
         did: this.selfDid
       },
       "Authenticated with Bluesky"
     );
   }
 
+  get did(): string {
+    if (!this.selfDid) {
+      throw new Error("BlueskySourceAdapter is not initialized");
+    }
+
+    return this.selfDid;
+  }
+
   async fetchRecentOwnPosts(limit = env.BLUESKY_FEED_LIMIT): Promise<any[]> {
     if (!this.selfDid) {
       throw new Error("BlueskySourceAdapter is not initialized");
     }
 
     const response = await this.agent.getAuthorFeed({
-      actor: env.BLUESKY_IDENTIFIER,
+      actor: this.selfDid,
       limit
     });
 
     const feed = response.data.feed ?? [];
-    return feed.filter((item) => {
-      const entry = item as any;
-
-      const isOwnPost = entry?.post?.author?.did === this.selfDid;
-      const isRepost = Boolean(entry?.reason);
-
-      if (!isOwnPost || isRepost) {
-        return false;
-      }
-
-      const hasReplyParent =
-        Boolean(entry?.reply?.parent) ||
-        typeof entry?.post?.record?.reply?.parent?.uri === "string";
-
-      if (!hasReplyParent) {
-        return true;
-      }
-
-      const rootDid = entry?.reply?.root?.author?.did;
-      const rootUri = entry?.post?.record?.reply?.root?.uri;
+    return feed.filter((item) => this.isSyndicatable(item));
+  }
 
-      const isRootOwnPost =
-        (typeof rootDid === "string" && rootDid === this.selfDid) ||
-        (typeof rootUri === "string" && rootUri.startsWith(`at://${this.selfDid}/`));
+  /**
+   * Fetches one page of the author feed. `rawItems` is the unfiltered page (useful for
+   * deciding when to stop paging), `items` only holds posts we would syndicate.
+   */
+  async fetchOwnPostsPage(params: {
+    cursor?: string;
+    limit?: number;
+  }): Promise<{ rawItems: any[]; items: any[]; cursor?: string }> {
+    if (!this.selfDid) {
+      throw new Error("BlueskySourceAdapter is not initialized");
+    }
 
-      return isRootOwnPost;
+    const response = await this.agent.getAuthorFeed({
+      actor: this.selfDid,
+      limit: params.limit ?? 100,
+      cursor: params.cursor
     });
+
+    const rawItems = response.data.feed ?? [];
+    return {
+      rawItems,
+      items: rawItems.filter((item) => this.isSyndicatable(item)),
+      cursor: response.data.cursor
+    };
   }
 
-  async fetchCurrentPostUris(): Promise<Set<string>> {
+  /**
+   * Hydrates specific post URIs into feed-item shaped objects (`{ post }`) so they can go
+   * through the same normalization as `getAuthorFeed` results. Posts the appview does not
+   * know about yet are simply absent from the result.
+   */
+  async fetchOwnPostsByUri(uris: string[]): Promise<any[]> {
     if (!this.selfDid) {
       throw new Error("BlueskySourceAdapter is not initialized");
     }
 
-    const uris = new Set<string>();
-    let cursor: string | undefined;
+    const items: any[] = [];
 
-    for (let page = 0; page < env.BLUESKY_DELETE_SYNC_MAX_PAGES; page += 1) {
-      const response = await this.agent.com.atproto.repo.listRecords({
-        repo: this.selfDid,
-        collection: "app.bsky.feed.post",
-        limit: 100,
-        cursor
+    for (let offset = 0; offset < uris.length; offset += 25) {
+      const response = await this.agent.getPosts({
+        uris: uris.slice(offset, offset + 25)
       });
 
-      const records = response.data.records ?? [];
-      for (const record of records) {
-        if (typeof record.uri === "string") {
-          uris.add(record.uri);
+      for (const post of response.data.posts ?? []) {
+        const item = { post };
+        if (this.isSyndicatable(item)) {
+          items.push(item);
         }
       }
+    }
+
+    return items;
+  }
 
-      cursor = response.data.cursor;
-      if (!cursor) {
-        break;
+  private isSyndicatable(item: unknown): boolean {
+    const entry = item as any;
+
+    const isOwnPost = entry?.post?.author?.did === this.selfDid;
+    const isRepost = Boolean(entry?.reason);
+
+    if (!isOwnPost || isRepost) {
+      return false;
+    }
+
+    const hasReplyParent =
+      Boolean(entry?.reply?.parent) ||
+      typeof entry?.post?.record?.reply?.parent?.uri === "string";
+
+    if (!hasReplyParent) {
+      return true;
+    }
+
+    const rootDid = entry?.reply?.root?.author?.did;
+    const rootUri = entry?.post?.record?.reply?.root?.uri;
+
+    const isRootOwnPost =
+      (typeof rootDid === "string" && rootDid === this.selfDid) ||
+      (typeof rootUri === "string" && rootUri.startsWith(`at://${this.selfDid}/`));
+
+    return isRootOwnPost;
+  }
+
+  /**
+   * Returns which of the given post URIs the appview can still resolve. Posts missing from
+   * the result are deletion candidates, not confirmed deletions.
+   */
+  async fetchExistingPostUris(uris: string[]): Promise<Set<string>> {
+    const existing = new Set<string>();
+
+    for (let offset = 0; offset < uris.length; offset += 25) {
+      const response = await this.agent.getPosts({
+        uris: uris.slice(offset, offset + 25)
+      });
+
+      for (const post of response.data.posts ?? []) {
+        existing.add(post.uri);
       }
     }
 
-    return uris;
+    return existing;
+  }
+
+  /**
+   * Asks the PDS directly whether a post record still exists. Only an explicit
+   * RecordNotFound counts as deleted; any other failure is reported as unknown.
+   */
+  async checkPostExists(uri: string): Promise<PostExistence> {
+    const match = uri.match(/^at:\/\/([^/]+)\/([^/]+)\/([^/?#]+)$/);
+    if (!match) {
+      return "unknown";
+    }
+
+    const [, repo, collection, rkey] = match;
+
+    try {
+      await this.agent.com.atproto.repo.getRecord({ repo, collection, rkey });
+      return "exists";
+    } catch (error) {
+      if (error instanceof ComAtprotoRepoGetRecord.RecordNotFoundError) {
+        return "deleted";
+      }
+
+      this.log.warn(
+        {
+          uri,
+          error: error instanceof Error ? error.message : String(error)
+        },
+        "Could not confirm whether Bluesky post still exists"
+      );
+      return "unknown";
+    }
   }
 }
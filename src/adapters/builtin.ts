@@ -0,0 +1,10 @@
+import { registerAdapter } from "./registry.js";
+import { mastodonAdapterModule } from "./mastodon.js";
+import { nostrAdapterModule } from "./nostr.js";
+import { twitterAdapterModule } from "./twitter.js";
+
+export function registerBuiltInAdapters(): void {
+  registerAdapter(mastodonAdapterModule);
+  registerAdapter(nostrAdapterModule);
+  registerAdapter(twitterAdapterModule);
+}
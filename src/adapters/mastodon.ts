@@ -1,79 +1,132 @@
 import { createRestAPIClient } from "masto";
+import type { Logger } from "pino";
+import { z } from "zod";
+import { defineEnv, optionalUrl, targetDefaultsFromEnv } from "../config/env.js";
 import { logger } from "../config/logger.js";
-import { env } from "../config/env.js";
+import type { TargetInstance } from "../config/accounts.js";
 import type { PlatformAdapter } from "./base.js";
-import type { CrossPost, PostResult } from "../core/types.js";
+import type { AdapterModule } from "./registry.js";
+import type { CrossPost, PostResult, TargetKey } from "../core/types.js";
 import { AppDatabase } from "../core/db.js";
 import { countByCodePoints, splitIntoThread } from "../core/text-splitter.js";
 import { buildPostTextWithSelfQuote } from "../core/quote-context.js";
+import { ThreadCheckpoint, editCheckpointKey } from "../core/thread-progress.js";
+import { contentWarningFor } from "../core/labels.js";
+import { primaryLanguage } from "../core/languages.js";
+import { createMentionRenderer } from "../core/mentions.js";
+import { LINK_CARD_POLICIES } from "../core/link-card.js";
+import {
+  altTextOverflowText,
+  layoutThread,
+  mediaIdsPerEntry,
+  prepareMedia,
+  type MediaConstraints,
+  type ThreadEntry
+} from "../core/media-preparation.js";
+
+// Mastodon's defaults, used until the instance reports its own limits.
+const DEFAULT_MAX_CHARACTERS = 500;
+const DEFAULT_MEDIA_CONSTRAINTS: MediaConstraints = {
+  maxPerPost: 4,
+  videoAlone: true,
+  maxImageBytes: 16 * 1024 * 1024,
+  maxImagePixels: 8_294_400,
+  maxAnimatedBytes: 16 * 1024 * 1024,
+  maxVideoBytes: 99 * 1024 * 1024,
+  maxAltTextLength: 1500
+};
+
+interface InstanceConfiguration {
+  statuses?: { max_characters?: number; max_media_attachments?: number };
+  media_attachments?: {
+    image_size_limit?: number;
+    image_matrix_limit?: number;
+    video_size_limit?: number;
+    description_limit?: number;
+  };
+}
+
+const mastodonEnv = defineEnv(
+  z.object({
+    MASTODON_INSTANCE: optionalUrl,
+    MASTODON_ACCESS_TOKEN: z.string().optional(),
+    MASTODON_LINK_CARD: z.enum(LINK_CARD_POLICIES).default("url")
+  })
+);
+
+const mastodonConfigSchema = z.object({
+  instance: z.string().url(),
+  accessToken: z.string().min(1),
+  linkCard: z.enum(LINK_CARD_POLICIES).default(() => mastodonEnv().MASTODON_LINK_CARD)
+});
+
+export type MastodonTargetConfig = z.infer<typeof mastodonConfigSchema>;
 
 export class MastodonAdapter implements PlatformAdapter {
   readonly name = "mastodon" as const;
-  private readonly log = logger.child({ module: "adapters/mastodon" });
+  readonly target: TargetKey;
+  private readonly log: Logger;
   private readonly db: AppDatabase;
+  private readonly config: MastodonTargetConfig;
   private client!: ReturnType<typeof createRestAPIClient>;
-  private maxCharacters = 500;
+  private maxCharacters = DEFAULT_MAX_CHARACTERS;
+  private mediaConstraints = DEFAULT_MEDIA_CONSTRAINTS;
 
-  constructor(db: AppDatabase) {
+  constructor(db: AppDatabase, target: TargetInstance<MastodonTargetConfig>) {
     this.db = db;
+    this.config = target.config;
+    this.target = target.key;
+    this.log = logger.child({ module: "adapters/mastodon", account: db.accountId, target: this.target });
   }
 
   async init(): Promise<void> {
-    if (!env.MASTODON_INSTANCE || !env.MASTODON_ACCESS_TOKEN) {
-      throw new Error("MASTODON_INSTANCE and MASTODON_ACCESS_TOKEN are required for Mastodon adapter");
+    if (!this.config.instance || !this.config.accessToken) {
+      throw new Error("A Mastodon instance URL and access token are required for Mastodon adapter");
     }
 
     this.client = createRestAPIClient({
-      url: env.MASTODON_INSTANCE,
-      accessToken: env.MASTODON_ACCESS_TOKEN
+      url: this.config.instance,
+      accessToken: this.config.accessToken
     });
 
-    this.maxCharacters = await this.fetchMaxCharacters();
+    const configuration = await this.fetchInstanceConfiguration();
+    this.maxCharacters = configuration?.statuses?.max_characters ?? DEFAULT_MAX_CHARACTERS;
+    this.mediaConstraints = mediaConstraintsFor(configuration);
 
     this.log.info(
       {
-        instance: env.MASTODON_INSTANCE,
-        maxCharacters: this.maxCharacters
+        instance: this.config.instance,
+        maxCharacters: this.maxCharacters,
+        mediaConstraints: this.mediaConstraints
       },
       "Initialized Mastodon adapter"
     );
   }
 
-  private async fetchMaxCharacters(): Promise<number> {
-    if (!env.MASTODON_INSTANCE || !env.MASTODON_ACCESS_TOKEN) {
-      return 500;
-    }
-
+  private async fetchInstanceConfiguration(): Promise<InstanceConfiguration | undefined> {
     try {
-      const response = await fetch(new URL("/api/v2/instance", env.MASTODON_INSTANCE), {
+      const response = await fetch(new URL("/api/v2/instance", this.config.instance), {
         headers: {
-          Authorization: `Bearer ${env.MASTODON_ACCESS_TOKEN}`
+          Authorization: `Bearer ${this.config.accessToken}`
         }
       });
 
       if (!response.ok) {
-        return 500;
+        return undefined;
       }
 
-      const payload = (await response.json()) as {
-        configuration?: { statuses?: { max_characters?: number } };
-      };
-
-      return payload.configuration?.statuses?.max_characters ?? 500;
+      const payload = (await response.json()) as { configuration?: InstanceConfiguration };
+      return payload.configuration;
     } catch {
-      return 500;
+      return undefined;
     }
   }
 
-  private async uploadMedia(post: CrossPost): Promise<string[]> {
-    if (!post.media || post.media.length === 0) {
-      return [];
-    }
-
-    const uploads = post.media.slice(0, 4);
+  /** Uploads the media of every thread entry, in thread order. */
+  private async uploadMedia(entries: ThreadEntry[]): Promise<string[]> {
     const mediaIds: string[] = [];
 
-    for (const media of uploads) {
+    for (const media of entries.flatMap((entry) => entry.media)) {
       const fileBytes = Uint8Array.from(media.data);
       const file = new Blob([fileBytes], { type: media.mimeType });
       const uploaded = await this.client.v2.media.create({
@@ -86,24 +139,61 @@ export class MastodonAdapter implements PlatformAdapter {
     return mediaIds;
   }
 
-  async post(post: CrossPost): Promise<PostResult> {
+  private splitText(text: string, post: CrossPost): string[] {
+    // Mastodon counts the content warning against the status length.
+    const warning = contentWarningFor(post);
+    return splitIntoThread(text, {
+      maxLength: this.maxCharacters - (warning ? countByCodePoints(warning) : 0),
+      countLength: countByCodePoints
+    });
+  }
+
+  /**
+   * The statuses of the thread: text chunks with up to the instance's media limit each, extra
+   * media in statuses of its own, then any alt text too long for Mastodon as replies.
+   */
+  private async buildThread(post: CrossPost): Promise<ThreadEntry[]> {
     const text = buildPostTextWithSelfQuote({
       post,
-      platform: this.name,
-      db: this.db
+      target: this.target,
+      db: this.db,
+      richText: { hashtags: "mastodon", mention: createMentionRenderer(this.db, "mastodon") },
+      linkCard: this.config.linkCard
     });
 
-    const chunks = splitIntoThread(text, {
-      maxLength: this.maxCharacters,
-      countLength: countByCodePoints
-    });
+    const prepared = await prepareMedia(post.media, this.mediaConstraints, this.log);
+    const altText = altTextOverflowText(prepared.altTextOverflow);
+    return layoutThread(
+      this.splitText(text, post),
+      prepared.batches,
+      altText ? this.splitText(altText, post) : []
+    );
+  }
 
-    const mediaIds = await this.uploadMedia(post);
+  /**
+   * Per-status fields shared by the whole thread: sensitive self-labels put every status behind
+   * a content warning, and the post's first language feeds Mastodon's filters and translation.
+   */
+  private statusParams(post: CrossPost): { sensitive: boolean; spoilerText: string; language?: string } {
+    const warning = contentWarningFor(post);
+    return { sensitive: Boolean(warning), spoilerText: warning ?? "", language: primaryLanguage(post) };
+  }
+
+  /** Resumes after the last status an earlier attempt published (see `ThreadCheckpoint`). */
+  async post(post: CrossPost): Promise<PostResult> {
+    const entries = await this.buildThread(post);
+    const shared = this.statusParams(post);
+    const checkpoint = new ThreadCheckpoint({ db: this.db, target: this.target, sourceUri: post.sourceUri });
+
+    const pendingMedia = entries.slice(checkpoint.publishedCount).some((entry) => entry.media.length > 0);
+    const mediaIds = pendingMedia
+      ? mediaIdsPerEntry(await checkpoint.uploadMediaOnce(() => this.uploadMedia(entries)), entries)
+      : [];
     const parentReplyId = post.reply
-      ? this.db.getPlatformRemoteId(post.reply.parentUri, this.name) ?? undefined
+      ? this.db.getPlatformRemoteId(post.reply.parentUri, this.target) ?? undefined
       : undefined;
     const rootReplyId = post.reply
-      ? this.db.getPlatformRemoteId(post.reply.rootUri, this.name) ?? undefined
+      ? this.db.getPlatformRemoteId(post.reply.rootUri, this.target) ?? undefined
       : undefined;
 
     if (post.reply && !parentReplyId && !rootReplyId) {
@@ -114,47 +204,107 @@ export class MastodonAdapter implements PlatformAdapter {
 
     const baseReplyId = parentReplyId ?? rootReplyId;
 
-    let previousId: string | undefined = baseReplyId;
-    const threadIds: string[] = [];
-    let firstUrl: string | undefined;
+    let previousId: string | undefined = checkpoint.lastRemoteId ?? baseReplyId;
 
-    for (let index = 0; index < chunks.length; index += 1) {
+    for (let index = checkpoint.publishedCount; index < entries.length; index += 1) {
       const status = await this.client.v1.statuses.create({
-        status: chunks[index],
-        mediaIds: index === 0 && mediaIds.length > 0 ? mediaIds : undefined,
-        inReplyToId: previousId
+        status: entries[index].text,
+        mediaIds: mediaIds[index]?.length ? mediaIds[index] : undefined,
+        inReplyToId: previousId,
+        ...shared
       });
 
       previousId = status.id;
-      if (!firstUrl) {
-        firstUrl = status.url ?? undefined;
-      }
-      threadIds.push(status.id);
+      checkpoint.recordChunk(status.id, status.url ?? undefined);
     }
 
+    const threadIds = checkpoint.publishedIds;
     return {
       id: threadIds[0],
-      url: firstUrl,
+      url: checkpoint.url,
       threadIds
     };
   }
 
-  async delete(sourceUri: string): Promise<void> {
-    if (!env.MASTODON_INSTANCE || !env.MASTODON_ACCESS_TOKEN) {
-      return;
+  /**
+   * Edits the published thread in place. Each status keeps the media it already has; if the
+   * new text needs more statuses they are appended, surplus ones are deleted. Statuses are
+   * checkpointed per edit, so a retry resumes instead of appending them twice.
+   */
+  async edit(post: CrossPost): Promise<PostResult> {
+    const remoteIds = this.db.getPlatformRemoteIds(post.sourceUri, this.target);
+    if (remoteIds.length === 0) {
+      return this.post(post);
+    }
+
+    const chunks = (await this.buildThread(post)).map((entry) => entry.text);
+    const shared = this.statusParams(post);
+    const checkpoint = new ThreadCheckpoint({
+      db: this.db,
+      target: this.target,
+      sourceUri: editCheckpointKey(post.sourceUri, post.sourceCid)
+    });
+    const done = checkpoint.publishedIds;
+    let previousId: string | undefined;
+
+    for (let index = 0; index < chunks.length; index += 1) {
+      const existingId = remoteIds[index];
+      if (!existingId && !chunks[index]) {
+        // A media-only status the original thread did not have; edits upload no new media.
+        continue;
+      }
+
+      const doneId = done.shift();
+      if (doneId) {
+        previousId = doneId;
+        continue;
+      }
+
+      let status;
+      if (existingId) {
+        const statusResource = this.client.v1.statuses.$select(existingId);
+        const mediaIds = (await statusResource.fetch()).mediaAttachments.map((media) => media.id);
+        status = await statusResource.update(
+          mediaIds.length > 0
+            ? { status: chunks[index], mediaIds, ...shared }
+            : { status: chunks[index], ...shared }
+        );
+      } else {
+        status = await this.client.v1.statuses.create({
+          status: chunks[index],
+          inReplyToId: previousId,
+          ...shared
+        });
+      }
+
+      previousId = status.id;
+      checkpoint.recordChunk(status.id, status.url ?? undefined);
     }
 
-    const remoteIds = this.db.getPlatformRemoteIds(sourceUri, this.name);
+    await this.delete(post.sourceUri, remoteIds.slice(chunks.length));
+
+    const threadIds = checkpoint.publishedIds;
+    const firstUrl = checkpoint.url;
+    checkpoint.clear();
+
+    return {
+      id: threadIds[0],
+      url: firstUrl,
+      threadIds
+    };
+  }
+
+  async delete(sourceUri: string, remoteIds = this.db.getRemoteIdsForDeletion(sourceUri, this.target)): Promise<void> {
     if (remoteIds.length === 0) {
       return;
     }
 
     for (const remoteId of [...remoteIds].reverse()) {
-      const url = new URL(`/api/v1/statuses/${encodeURIComponent(remoteId)}`, env.MASTODON_INSTANCE);
+      const url = new URL(`/api/v1/statuses/${encodeURIComponent(remoteId)}`, this.config.instance);
       const response = await fetch(url, {
         method: "DELETE",
         headers: {
-          Authorization: `Bearer ${env.MASTODON_ACCESS_TOKEN}`
+          Authorization: `Bearer ${this.config.accessToken}`
         }
       });
 
@@ -168,3 +318,34 @@ export class MastodonAdapter implements PlatformAdapter {
     this.log.info("Mastodon adapter stopped");
   }
 }
+
+/** The instance's reported limits, falling back to Mastodon's defaults for any it leaves out. */
+function mediaConstraintsFor(configuration: InstanceConfiguration | undefined): MediaConstraints {
+  const media = configuration?.media_attachments;
+  return {
+    ...DEFAULT_MEDIA_CONSTRAINTS,
+    maxPerPost: configuration?.statuses?.max_media_attachments ?? DEFAULT_MEDIA_CONSTRAINTS.maxPerPost,
+    maxImageBytes: media?.image_size_limit ?? DEFAULT_MEDIA_CONSTRAINTS.maxImageBytes,
+    maxImagePixels: media?.image_matrix_limit ?? DEFAULT_MEDIA_CONSTRAINTS.maxImagePixels,
+    maxAnimatedBytes: media?.image_size_limit ?? DEFAULT_MEDIA_CONSTRAINTS.maxAnimatedBytes,
+    maxVideoBytes: media?.video_size_limit ?? DEFAULT_MEDIA_CONSTRAINTS.maxVideoBytes,
+    maxAltTextLength: media?.description_limit ?? DEFAULT_MEDIA_CONSTRAINTS.maxAltTextLength
+  };
+}
+
+export const mastodonAdapterModule: AdapterModule<MastodonTargetConfig> = {
+  name: "mastodon",
+  configSchema: mastodonConfigSchema,
+  configFromEnv: () => {
+    const env = mastodonEnv();
+    return env.MASTODON_INSTANCE && env.MASTODON_ACCESS_TOKEN
+      ? {
+          instance: env.MASTODON_INSTANCE,
+          accessToken: env.MASTODON_ACCESS_TOKEN,
+          linkCard: env.MASTODON_LINK_CARD
+        }
+      : null;
+  },
+  ...targetDefaultsFromEnv("MASTODON"),
+  create: (db, target) => new MastodonAdapter(db, target)
+};
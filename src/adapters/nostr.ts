@@ -2,12 +2,57 @@ import { createHash } from "node:crypto";
 import { finalizeEvent, getPublicKey, nip19 } from "nostr-tools";
 import { SimplePool, useWebSocketImplementation } from "nostr-tools/pool";
 import WebSocket from "ws";
-import { env } from "../config/env.js";
+import type { Logger } from "pino";
+import { z } from "zod";
+import { booleanFlag, defineEnv, parseList, targetDefaultsFromEnv } from "../config/env.js";
 import { logger } from "../config/logger.js";
+import type { TargetInstance } from "../config/accounts.js";
 import type { PlatformAdapter } from "./base.js";
-import type { CrossPost, PostResult } from "../core/types.js";
+import type { AdapterModule } from "./registry.js";
+import type { CrossPost, MediaAsset, PostResult, TargetKey } from "../core/types.js";
 import { AppDatabase } from "../core/db.js";
 import { buildPostTextWithSelfQuote } from "../core/quote-context.js";
+import { contentWarningFor, sensitiveLabels } from "../core/labels.js";
+import { primaryLanguageSubtag } from "../core/languages.js";
+import { extractTags } from "../core/rich-text.js";
+import { createMentionRenderer, mentionedNostrPubkeys } from "../core/mentions.js";
+import { LINK_CARD_POLICIES } from "../core/link-card.js";
+import { prepareMedia, type MediaConstraints } from "../core/media-preparation.js";
+
+const nostrEnv = defineEnv(
+  z.object({
+    NOSTR_PRIVATE_KEY: z.string().optional(),
+    NOSTR_RELAYS: z
+      .string()
+      .default("wss://relay.damus.io,wss://nos.lol,wss://relay.nostr.band")
+      .transform(parseList),
+    NOSTR_MEDIA_HOST: z.string().url().default("https://nostr.build"),
+    NOSTR_LINK_CARD: z.enum(LINK_CARD_POLICIES).default("summary"),
+    NOSTR_LINK_CARD_THUMBNAIL: booleanFlag
+  })
+);
+
+const nostrConfigSchema = z.object({
+  privateKey: z.string().min(1),
+  relays: z
+    .array(z.string().min(1))
+    .min(1)
+    .default(() => nostrEnv().NOSTR_RELAYS),
+  mediaHost: z
+    .string()
+    .url()
+    .default(() => nostrEnv().NOSTR_MEDIA_HOST),
+  linkCard: z.enum(LINK_CARD_POLICIES).default(() => nostrEnv().NOSTR_LINK_CARD),
+  /** Re-hosts the link card's thumbnail through the media host and shows it under the summary. */
+  linkCardThumbnail: z.boolean().default(() => nostrEnv().NOSTR_LINK_CARD_THUMBNAIL)
+});
+
+export type NostrTargetConfig = z.infer<typeof nostrConfigSchema>;
+
+interface Nip96Info {
+  api_url?: string;
+  plans?: { free?: { max_byte_size?: number } };
+}
 
 interface UploadedMedia {
   url: string;
@@ -18,14 +63,14 @@ function parsePrivateKey(value: string): Uint8Array {
   if (value.startsWith("nsec")) {
     const decoded = nip19.decode(value);
     if (decoded.type !== "nsec") {
-      throw new Error("NOSTR_PRIVATE_KEY is not a valid nsec value");
+      throw new Error("Nostr private key is not a valid nsec value");
     }
     return decoded.data;
   }
 
   const normalized = value.trim().toLowerCase();
   if (!/^[a-f0-9]{64}$/.test(normalized)) {
-    throw new Error("NOSTR_PRIVATE_KEY must be a 32-byte hex value or nsec");
+    throw new Error("Nostr private key must be a 32-byte hex value or nsec");
   }
 
   return Uint8Array.from(Buffer.from(normalized, "hex"));
@@ -33,17 +78,25 @@ function parsePrivateKey(value: string): Uint8Array {
 
 export class NostrAdapter implements PlatformAdapter {
   readonly name = "nostr" as const;
-  private readonly log = logger.child({ module: "adapters/nostr" });
+  readonly target: TargetKey;
+  private readonly log: Logger;
   private readonly db: AppDatabase;
-  private readonly relays = env.nostrRelays;
+  private readonly config: NostrTargetConfig;
+  private readonly relays: string[];
 
   private pool: SimplePool;
   private secretKey!: Uint8Array;
   private publicKey!: string;
   private mediaUploadUrl: string | null = null;
+  /** From the media host's NIP-96 free plan; Nostr itself puts no limit on a note's media. */
+  private mediaConstraints: MediaConstraints = {};
 
-  constructor(db: AppDatabase) {
+  constructor(db: AppDatabase, target: TargetInstance<NostrTargetConfig>) {
     this.db = db;
+    this.config = target.config;
+    this.target = target.key;
+    this.log = logger.child({ module: "adapters/nostr", account: db.accountId, target: this.target });
+    this.relays = target.config.relays;
     useWebSocketImplementation(WebSocket);
     this.pool = new SimplePool({
       enableReconnect: true,
@@ -52,35 +105,40 @@ export class NostrAdapter implements PlatformAdapter {
   }
 
   async init(): Promise<void> {
-    if (!env.NOSTR_PRIVATE_KEY) {
-      throw new Error("NOSTR_PRIVATE_KEY is required for Nostr adapter");
+    if (!this.config.privateKey) {
+      throw new Error("A private key is required for Nostr adapter");
     }
 
-    this.secretKey = parsePrivateKey(env.NOSTR_PRIVATE_KEY);
+    this.secretKey = parsePrivateKey(this.config.privateKey);
     this.publicKey = getPublicKey(this.secretKey);
 
-    this.mediaUploadUrl = await this.discoverNip96UploadUrl();
+    const nip96 = await this.discoverNip96();
+    this.mediaUploadUrl = nip96?.api_url ?? null;
+    const maxBytes = nip96?.plans?.free?.max_byte_size;
+    this.mediaConstraints = maxBytes
+      ? { maxImageBytes: maxBytes, maxAnimatedBytes: maxBytes, maxVideoBytes: maxBytes }
+      : {};
 
     this.log.info(
       {
         pubkey: this.publicKey,
         relayCount: this.relays.length,
-        mediaUploadUrl: this.mediaUploadUrl
+        mediaUploadUrl: this.mediaUploadUrl,
+        mediaMaxBytes: maxBytes
       },
       "Initialized Nostr adapter"
     );
   }
 
-  private async discoverNip96UploadUrl(): Promise<string | null> {
+  private async discoverNip96(): Promise<Nip96Info | null> {
     try {
-      const host = env.NOSTR_MEDIA_HOST.replace(/\/$/, "");
+      const host = this.config.mediaHost.replace(/\/$/, "");
       const response = await fetch(`${host}/.well-known/nostr/nip96.json`);
       if (!response.ok) {
         return null;
       }
 
-      const payload = (await response.json()) as { api_url?: string };
-      return payload.api_url ?? null;
+      return (await response.json()) as Nip96Info;
     } catch {
       return null;
     }
@@ -110,48 +168,54 @@ export class NostrAdapter implements PlatformAdapter {
     return `Nostr ${encoded}`;
   }
 
-  private async uploadMedia(post: CrossPost): Promise<UploadedMedia[]> {
-    if (!this.mediaUploadUrl || !post.media || post.media.length === 0) {
-      return [];
+  /** Uploads one file to the NIP-96 media host and returns its public URL. */
+  private async uploadFile(uploadUrl: string, media: MediaAsset): Promise<string> {
+    const form = new FormData();
+    const filename = media.filename ?? `${Date.now()}.${media.type === "image" ? "jpg" : "mp4"}`;
+    const fileBytes = Uint8Array.from(media.data);
+    form.set("file", new Blob([fileBytes], { type: media.mimeType }), filename);
+    if (media.altText) {
+      form.set("alt", media.altText);
     }
 
-    const uploaded: UploadedMedia[] = [];
+    const payloadHash = createHash("sha256").update(media.data).digest("hex");
 
-    for (const media of post.media) {
-      const form = new FormData();
-      const filename = media.filename ?? `${Date.now()}.${media.type === "image" ? "jpg" : "mp4"}`;
-      const fileBytes = Uint8Array.from(media.data);
-      form.set("file", new Blob([fileBytes], { type: media.mimeType }), filename);
-      if (media.altText) {
-        form.set("alt", media.altText);
-      }
+    const response = await fetch(uploadUrl, {
+      method: "POST",
+      headers: {
+        Authorization: this.createNip98AuthHeader(uploadUrl, "POST", payloadHash)
+      },
+      body: form
+    });
 
-      const payloadHash = createHash("sha256").update(media.data).digest("hex");
+    if (!response.ok) {
+      throw new Error(`nostr.build upload failed: ${response.status} ${response.statusText}`);
+    }
 
-      const response = await fetch(this.mediaUploadUrl, {
-        method: "POST",
-        headers: {
-          Authorization: this.createNip98AuthHeader(this.mediaUploadUrl, "POST", payloadHash)
-        },
-        body: form
-      });
+    const payload = (await response.json()) as {
+      nip94_event?: { tags?: Array<[string, string]> };
+    };
 
-      if (!response.ok) {
-        throw new Error(`nostr.build upload failed: ${response.status} ${response.statusText}`);
-      }
+    const tags = payload.nip94_event?.tags ?? [];
+    const urlTag = tags.find((tag) => tag[0] === "url");
+    if (!urlTag?.[1]) {
+      throw new Error("nostr.build upload response missing URL tag");
+    }
 
-      const payload = (await response.json()) as {
-        nip94_event?: { tags?: Array<[string, string]> };
-      };
+    return urlTag[1];
+  }
 
-      const tags = payload.nip94_event?.tags ?? [];
-      const urlTag = tags.find((tag) => tag[0] === "url");
-      if (!urlTag?.[1]) {
-        throw new Error("nostr.build upload response missing URL tag");
-      }
+  private async uploadMedia(post: CrossPost): Promise<UploadedMedia[]> {
+    if (!this.mediaUploadUrl || !post.media || post.media.length === 0) {
+      return [];
+    }
+
+    const uploaded: UploadedMedia[] = [];
+    const prepared = await prepareMedia(post.media, this.mediaConstraints, this.log);
 
+    for (const media of prepared.batches.flat()) {
       uploaded.push({
-        url: urlTag[1],
+        url: await this.uploadFile(this.mediaUploadUrl, media),
         altText: media.altText
       });
     }
@@ -159,13 +223,47 @@ export class NostrAdapter implements PlatformAdapter {
     return uploaded;
   }
 
+  /** The thumbnail is decoration: if it cannot be fetched or uploaded, the note goes out without it. */
+  private async uploadLinkCardThumbnail(post: CrossPost): Promise<string | undefined> {
+    const thumbUrl = post.external?.thumbUrl;
+    if (!thumbUrl || !this.mediaUploadUrl || !this.config.linkCardThumbnail || this.config.linkCard !== "summary") {
+      return undefined;
+    }
+
+    try {
+      const response = await fetch(thumbUrl);
+      if (!response.ok) {
+        throw new Error(`thumbnail download failed: ${response.status} ${response.statusText}`);
+      }
+
+      return await this.uploadFile(this.mediaUploadUrl, {
+        type: "image",
+        data: Buffer.from(await response.arrayBuffer()),
+        mimeType: response.headers.get("content-type")?.split(";")[0].trim() || "image/jpeg",
+        altText: post.external?.title
+      });
+    } catch (error) {
+      this.log.warn(
+        {
+          sourceUri: post.sourceUri,
+          error: error instanceof Error ? error.message : String(error)
+        },
+        "Could not re-host link card thumbnail; posting without it"
+      );
+      return undefined;
+    }
+  }
+
   async post(post: CrossPost): Promise<PostResult> {
     const uploadedMedia = await this.uploadMedia(post);
+    const thumbnailUrl = await this.uploadLinkCardThumbnail(post);
 
     const text = buildPostTextWithSelfQuote({
       post,
-      platform: this.name,
-      db: this.db
+      target: this.target,
+      db: this.db,
+      richText: { mention: createMentionRenderer(this.db, "nostr") },
+      linkCard: this.config.linkCard
     });
 
     const mediaLines = uploadedMedia.map((item) => item.url);
@@ -174,6 +272,9 @@ export class NostrAdapter implements PlatformAdapter {
       .filter((item): item is string => Boolean(item));
 
     const contentBlocks = [text.trim()];
+    if (thumbnailUrl) {
+      contentBlocks.push(thumbnailUrl);
+    }
     if (mediaLines.length > 0) {
       contentBlocks.push(mediaLines.join("\n"));
     }
@@ -186,9 +287,36 @@ export class NostrAdapter implements PlatformAdapter {
       tags.push(["alt", post.altText.join(" | ")]);
     }
 
+    for (const tag of extractTags(post)) {
+      tags.push(["t", tag]);
+    }
+
+    for (const pubkey of mentionedNostrPubkeys(this.db, post)) {
+      tags.push(["p", pubkey]);
+    }
+
+    // NIP-32 language labels, in the ISO-639-1 namespace clients filter and translate by.
+    const languages = [...new Set((post.langs ?? []).map(primaryLanguageSubtag).filter(Boolean))];
+    if (languages.length > 0) {
+      tags.push(["L", "ISO-639-1"]);
+      for (const language of languages) {
+        tags.push(["l", language, "ISO-639-1"]);
+      }
+    }
+
+    // NIP-36: clients hide the note behind the reason; the NIP-32 labels name each self-label.
+    const warning = contentWarningFor(post);
+    if (warning) {
+      tags.push(["content-warning", warning]);
+      tags.push(["L", "content-warning"]);
+      for (const label of sensitiveLabels(post)) {
+        tags.push(["l", label, "content-warning"]);
+      }
+    }
+
     if (post.reply?.rootUri) {
-      const rootId = this.db.getPlatformRemoteId(post.reply.rootUri, this.name);
-      const parentId = this.db.getPlatformRemoteId(post.reply.parentUri, this.name);
+      const rootId = this.db.getPlatformRemoteId(post.reply.rootUri, this.target);
+      const parentId = this.db.getPlatformRemoteId(post.reply.parentUri, this.target);
 
       if (!rootId && !parentId) {
         throw new Error(
@@ -227,8 +355,18 @@ export class NostrAdapter implements PlatformAdapter {
     };
   }
 
-  async delete(sourceUri: string): Promise<void> {
-    const remoteIds = this.db.getPlatformRemoteIds(sourceUri, this.name);
+  /**
+   * Nostr notes are immutable, so an edit publishes a new event carrying the updated content;
+   * the worker then sends the NIP-09 deletion for the old one. If publishing fails, the old
+   * event stays up.
+   */
+  async edit(post: CrossPost): Promise<PostResult> {
+    const supersededIds = this.db.getPlatformRemoteIds(post.sourceUri, this.target);
+    const result = await this.post(post);
+    return { ...result, supersededIds };
+  }
+
+  async delete(sourceUri: string, remoteIds = this.db.getPlatformRemoteIds(sourceUri, this.target)): Promise<void> {
     if (remoteIds.length === 0) {
       return;
     }
@@ -254,3 +392,23 @@ export class NostrAdapter implements PlatformAdapter {
     this.log.info("Nostr adapter stopped");
   }
 }
+
+export const nostrAdapterModule: AdapterModule<NostrTargetConfig> = {
+  name: "nostr",
+  configSchema: nostrConfigSchema,
+  configFromEnv: () => {
+    const env = nostrEnv();
+    return env.NOSTR_PRIVATE_KEY && env.NOSTR_RELAYS.length > 0
+      ? {
+          privateKey: env.NOSTR_PRIVATE_KEY,
+          relays: env.NOSTR_RELAYS,
+          mediaHost: env.NOSTR_MEDIA_HOST,
+          linkCard: env.NOSTR_LINK_CARD,
+          linkCardThumbnail: env.NOSTR_LINK_CARD_THUMBNAIL
+        }
+      : null;
+  },
+  ...targetDefaultsFromEnv("NOSTR"),
+  quoteUrl: (remoteId) => `nostr:${remoteId}`,
+  create: (db, target) => new NostrAdapter(db, target)
+};
@@ -0,0 +1,121 @@
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { JobsOptions } from "bullmq";
+import type { z } from "zod";
+import type { TargetInstance } from "../config/accounts.js";
+import type { AppDatabase } from "../core/db.js";
+import type { CrossPost, PlatformName } from "../core/types.js";
+import type { PlatformAdapter } from "./base.js";
+
+export interface TargetRateLimits {
+  /** Minimum spacing between jobs on the target's queue, for platforms with tight write limits. */
+  minPostIntervalMs?: number;
+  /**
+   * Posts in the last 24 hours, a rolling window rather than a calendar day; catch-up never
+   * queues more than what is left of it.
+   */
+  dailyLimit?: number;
+}
+
+/**
+ * Everything core needs to know about a target platform. Built-in adapters declare one next
+ * to their class; third-party packages export one (as `default` or `adapterModule`) and are
+ * listed in ADAPTER_MODULES.
+ */
+export interface AdapterModule<TConfig = unknown> {
+  /** Platform name used as the ACCOUNTS_FILE key, queue name suffix and target key prefix. */
+  name: PlatformName;
+  /**
+   * Validates one instance entry in ACCOUNTS_FILE (`name`, `postDelayMs`, `skipLabels` and
+   * `languages` are handled by core).
+   */
+  configSchema: z.ZodType<TConfig, unknown>;
+  /** Builds the default account's instance from environment variables, or null when unconfigured. */
+  configFromEnv?(): TConfig | null;
+  /** Default grace period when an instance does not set `postDelayMs`. */
+  defaultPostDelayMs?: number;
+  /** Default self-labels to skip when an instance does not set `skipLabels`. */
+  defaultSkipLabels?: string[];
+  /** Default language filter when an instance does not set `languages`. */
+  defaultLanguages?: string[];
+  /** Merged over the default BullMQ job options for this platform's queues. */
+  queueOptions?: JobsOptions;
+  rateLimits?(config: TConfig): TargetRateLimits;
+  /** BullMQ priority (1 is highest) for a new post job, for targets that ration their writes. */
+  priority?(post: CrossPost, config: TConfig): number | undefined;
+  /** Public URL of a published post when the adapter did not record one. */
+  quoteUrl?(remoteId: string): string | undefined;
+  create(db: AppDatabase, target: TargetInstance<TConfig>): PlatformAdapter;
+}
+
+const modules = new Map<PlatformName, AdapterModule>();
+
+export function registerAdapter(module: AdapterModule): void {
+  if (!/^[a-z0-9_-]+$/i.test(module.name)) {
+    throw new Error(`Invalid adapter name "${module.name}"; use letters, digits, '-' and '_'`);
+  }
+
+  if (modules.has(module.name)) {
+    throw new Error(`An adapter named "${module.name}" is already registered`);
+  }
+
+  modules.set(module.name, module);
+}
+
+export function getAdapterModule(name: PlatformName): AdapterModule | undefined {
+  return modules.get(name);
+}
+
+/** Like `getAdapterModule`, for callers that cannot go on without the platform. */
+export function requireAdapterModule(name: PlatformName): AdapterModule {
+  const module = modules.get(name);
+  if (!module) {
+    throw new Error(
+      `Unknown target platform "${name}"; registered platforms: ${[...modules.keys()].join(", ") || "none"}`
+    );
+  }
+
+  return module;
+}
+
+export function listAdapterModules(): AdapterModule[] {
+  return [...modules.values()];
+}
+
+function isAdapterModule(value: unknown): value is AdapterModule {
+  const candidate = value as Partial<AdapterModule> | null;
+  return (
+    typeof candidate?.name === "string" &&
+    typeof candidate.create === "function" &&
+    typeof candidate.configSchema?.safeParse === "function"
+  );
+}
+
+/**
+ * Imports third-party adapter packages and registers the module each exports. Relative
+ * paths are resolved against the working directory.
+ */
+export async function loadAdapterModules(specifiers: string[]): Promise<void> {
+  for (const specifier of specifiers) {
+    const resolved =
+      specifier.startsWith(".") || path.isAbsolute(specifier)
+        ? pathToFileURL(path.resolve(process.cwd(), specifier)).href
+        : specifier;
+
+    let imported: { default?: unknown; adapterModule?: unknown };
+    try {
+      imported = await import(resolved);
+    } catch (error) {
+      throw new Error(
+        `Could not load adapter module ${specifier}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const candidate = imported.adapterModule ?? imported.default;
+    if (!isAdapterModule(candidate)) {
+      throw new Error(`Adapter module ${specifier} does not export an adapter definition`);
+    }
+
+    registerAdapter(candidate);
+  }
+}
@@ -0,0 +1,205 @@
+import type { Logger } from "pino";
+import { TwitterApi, type SendTweetV2Params, type TwitterApiReadWrite } from "twitter-api-v2";
+import type { MediaAsset } from "../core/types.js";
+import { AppDatabase } from "../core/db.js";
+import { SessionExpiredError } from "./base.js";
+import { twitterMediaCategory, type TwitterBackend, type TwitterSensitiveMediaWarning } from "./twitter-backend.js";
+
+// Refresh OAuth 2.0 access tokens a little before they expire.
+const OAUTH2_REFRESH_MARGIN_MS = 60_000;
+
+export interface TwitterApiCredentials {
+  oauth1?: {
+    appKey: string;
+    appSecret: string;
+    accessToken: string;
+    accessSecret: string;
+  };
+  oauth2?: {
+    accessToken?: string;
+    refreshToken?: string;
+    clientId?: string;
+    clientSecret?: string;
+  };
+}
+
+/** The API answers 401 once the tokens are revoked or expired, on reads and writes alike. */
+function toSessionError(error: unknown): unknown {
+  if ((error as { code?: unknown }).code !== 401) {
+    return error;
+  }
+
+  return new SessionExpiredError(
+    `Twitter API credentials rejected: ${error instanceof Error ? error.message : String(error)}`,
+    { statusCode: 401 }
+  );
+}
+
+/**
+ * Posts through the official v2 endpoints with OAuth 1.0a or OAuth 2.0 user tokens. OAuth 2.0
+ * refresh tokens rotate on every refresh, so the latest one is kept in `sync_state`.
+ */
+export class TwitterApiBackend implements TwitterBackend {
+  readonly mode = "api" as const;
+  private readonly log: Logger;
+  private readonly db: AppDatabase;
+  private readonly credentials: TwitterApiCredentials;
+  private readonly refreshTokenKey: string;
+
+  private client!: TwitterApiReadWrite;
+  private accessTokenExpiresAt: number | null = null;
+  // Refresh tokens are single-use, so concurrent jobs must share one refresh.
+  private refreshing: Promise<void> | null = null;
+
+  constructor(params: { db: AppDatabase; target: string; credentials: TwitterApiCredentials; log: Logger }) {
+    this.db = params.db;
+    this.credentials = params.credentials;
+    this.log = params.log;
+    this.refreshTokenKey = `twitter_oauth2_refresh:${params.db.accountId}:${params.target}`;
+  }
+
+  async init(): Promise<void> {
+    const { oauth1, oauth2 } = this.credentials;
+
+    if (oauth1) {
+      this.client = new TwitterApi(oauth1).readWrite;
+    } else if (oauth2?.refreshToken && oauth2.clientId) {
+      await this.refreshOAuth2Client();
+    } else if (oauth2?.accessToken) {
+      this.client = new TwitterApi(oauth2.accessToken).readWrite;
+    } else {
+      throw new Error("OAuth 1.0a keys or an OAuth 2.0 user token are required for the Twitter API backend");
+    }
+
+    const me = await this.client.v2.me();
+    this.log.info(
+      {
+        username: me.data.username,
+        auth: oauth1 ? "oauth1" : "oauth2"
+      },
+      "Using Twitter API v2 backend"
+    );
+  }
+
+  private async refreshOAuth2Client(): Promise<void> {
+    const { clientId, clientSecret, refreshToken: configuredToken } = this.credentials.oauth2 ?? {};
+    if (!clientId || !configuredToken) {
+      throw new Error("Refreshing an OAuth 2.0 token requires a client id and refresh token");
+    }
+
+    // A stored token only supersedes the configured one it was rotated from.
+    const stored = this.db.getSyncState(this.refreshTokenKey);
+    const storedTokens = stored ? (JSON.parse(stored) as { configured: string; current: string }) : null;
+    const refreshToken = storedTokens?.configured === configuredToken ? storedTokens.current : configuredToken;
+
+    const result = await new TwitterApi({ clientId, clientSecret }).refreshOAuth2Token(refreshToken);
+    if (result.refreshToken) {
+      this.db.setSyncState(
+        this.refreshTokenKey,
+        JSON.stringify({ configured: configuredToken, current: result.refreshToken })
+      );
+    }
+
+    this.client = result.client.readWrite;
+    this.accessTokenExpiresAt = Date.now() + result.expiresIn * 1000;
+  }
+
+  private async api(): Promise<TwitterApiReadWrite> {
+    if (this.accessTokenExpiresAt !== null && Date.now() >= this.accessTokenExpiresAt - OAUTH2_REFRESH_MARGIN_MS) {
+      this.refreshing ??= this.refreshOAuth2Client().finally(() => {
+        this.refreshing = null;
+      });
+      await this.refreshing;
+    }
+
+    return this.client;
+  }
+
+  private async call<T>(action: (client: TwitterApiReadWrite) => Promise<T>): Promise<T> {
+    try {
+      return await action(await this.api());
+    } catch (error) {
+      throw toSessionError(error);
+    }
+  }
+
+  async checkSession(): Promise<void> {
+    await this.call((client) => client.v2.me());
+  }
+
+  async uploadMedia(
+    media: MediaAsset,
+    options: { sensitiveWarnings?: TwitterSensitiveMediaWarning[] } = {}
+  ): Promise<string> {
+    return this.call((client) => this.uploadWithClient(client, media, options.sensitiveWarnings ?? []));
+  }
+
+  private async uploadWithClient(
+    client: TwitterApiReadWrite,
+    media: MediaAsset,
+    sensitiveWarnings: TwitterSensitiveMediaWarning[]
+  ): Promise<string> {
+    const mediaId = await client.v2.uploadMedia(media.data, {
+      media_type: media.mimeType as Parameters<typeof client.v2.uploadMedia>[1]["media_type"],
+      media_category: twitterMediaCategory(media)
+    });
+
+    const altText = media.altText && twitterMediaCategory(media) !== "tweet_video" ? media.altText : undefined;
+    if (altText || sensitiveWarnings.length > 0) {
+      // The library's types predate `sensitive_media_warning`; the endpoint accepts it.
+      const metadata: { alt_text?: { text: string }; sensitive_media_warning?: TwitterSensitiveMediaWarning[] } = {};
+      if (altText) {
+        metadata.alt_text = { text: altText.slice(0, 1000) };
+      }
+      if (sensitiveWarnings.length > 0) {
+        metadata.sensitive_media_warning = sensitiveWarnings;
+      }
+
+      try {
+        await client.v2.createMediaMetadata(mediaId, metadata);
+      } catch (error) {
+        this.log.warn(
+          {
+            mediaId,
+            error: error instanceof Error ? error.message : String(error)
+          },
+          "Failed to attach Twitter media metadata; continuing"
+        );
+      }
+    }
+
+    return mediaId;
+  }
+
+  /**
+   * The v2 endpoint accepts extended text as-is for accounts that are allowed to post it. It
+   * has no tweet-level sensitivity flag, so `sensitive` relies on the media warnings set at upload.
+   */
+  async createTweet(params: {
+    text: string;
+    mediaIds: string[];
+    replyToTweetId?: string;
+    longPost?: boolean;
+    sensitive?: boolean;
+  }): Promise<string> {
+    const payload: SendTweetV2Params = { text: params.text };
+
+    if (params.mediaIds.length > 0) {
+      payload.media = { media_ids: params.mediaIds as NonNullable<SendTweetV2Params["media"]>["media_ids"] };
+    }
+
+    if (params.replyToTweetId) {
+      payload.reply = { in_reply_to_tweet_id: params.replyToTweetId };
+    }
+
+    const response = await this.call((client) => client.v2.tweet(payload));
+    return response.data.id;
+  }
+
+  async deleteTweet(tweetId: string): Promise<void> {
+    const response = await this.call((client) => client.v2.deleteTweet(tweetId));
+    if (!response.data.deleted) {
+      throw new Error(`Twitter did not delete tweet ${tweetId}`);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import type { MediaAsset } from "../core/types.js";
+
+/**
+ * Transport used by `TwitterAdapter`. Threading, the daily budget and reply resolution stay
+ * in the adapter (429s are handled by the worker), so backends only move single tweets and
+ * media over the wire. Errors should expose the HTTP status as `code`/`statusCode` and any
+ * rate-limit headers so the worker can schedule retries.
+ */
+export interface TwitterBackend {
+  readonly mode: "web" | "api";
+  init(): Promise<void>;
+  /**
+   * Uploads one attachment (with alt text when the platform accepts it) and returns its media id.
+   * `sensitiveWarnings` flags the media so Twitter hides it behind a warning.
+   */
+  uploadMedia(media: MediaAsset, options?: { sensitiveWarnings?: TwitterSensitiveMediaWarning[] }): Promise<string>;
+  /**
+   * `longPost` sends text beyond 280 weighted characters as one extended (note) tweet.
+   * `sensitive` marks the tweet's media as possibly sensitive where the backend can.
+   */
+  createTweet(params: {
+    text: string;
+    mediaIds: string[];
+    replyToTweetId?: string;
+    longPost?: boolean;
+    sensitive?: boolean;
+  }): Promise<string>;
+  deleteTweet(tweetId: string): Promise<void>;
+  /** Throws `SessionExpiredError` when the credentials are no longer accepted. */
+  checkSession(): Promise<void>;
+}
+
+export function twitterMediaCategory(media: MediaAsset): "tweet_image" | "tweet_video" | "tweet_gif" {
+  const mime = media.mimeType.toLowerCase();
+
+  if (mime === "image/gif" || media.filename?.toLowerCase().endsWith(".gif")) {
+    return "tweet_gif";
+  }
+
+  if (mime.startsWith("video/") || media.type === "video") {
+    return "tweet_video";
+  }
+
+  return "tweet_image";
+}
+
+export type TwitterSensitiveMediaWarning = "adult_content" | "graphic_violence" | "other";
+
+const SENSITIVE_MEDIA_WARNINGS: Record<string, TwitterSensitiveMediaWarning> = {
+  porn: "adult_content",
+  sexual: "adult_content",
+  nudity: "adult_content",
+  "graphic-media": "graphic_violence"
+};
+
+/** Twitter's media warning categories for sensitive self-labels; labels it has no category for map to `other`. */
+export function twitterSensitiveMediaWarnings(labels: string[]): TwitterSensitiveMediaWarning[] {
+  return [...new Set(labels.map((label) => SENSITIVE_MEDIA_WARNINGS[label] ?? "other"))];
+}
+
+const LONG_POST_UNSUPPORTED_PATTERN =
+  /not (?:authorized|allowed|permitted|eligible)|too long|needs to be a bit shorter|premium|subscri/i;
+
+/** Whether a failed long post means the account cannot post extended tweets (vs. a transient error). */
+export function isLongPostUnsupportedError(error: unknown): boolean {
+  const details = (typeof error === "object" && error ? error : {}) as { statusCode?: unknown; code?: unknown };
+  const statusCode = Number(details.statusCode ?? details.code);
+  if (statusCode === 429 || statusCode >= 500) {
+    return false;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return LONG_POST_UNSUPPORTED_PATTERN.test(message);
+}
@@ -0,0 +1,117 @@
+/**
+ * The web client's GraphQL query IDs and feature flags change whenever Twitter ships a new
+ * bundle. These helpers recover them from the bundle itself; they are pure so saved bundles
+ * can be replayed against them.
+ */
+
+export type TwitterGraphqlOperationName = "CreateTweet" | "CreateNoteTweet" | "DeleteTweet";
+
+export interface TwitterGraphqlOperation {
+  queryId: string;
+  /** Feature flags the operation declares; sent as the request's `features` object. */
+  features: Record<string, boolean>;
+}
+
+export interface DiscoveredTwitterGraphqlOperation {
+  queryId: string;
+  operationName: string;
+  operationType?: string;
+  featureSwitches: string[];
+}
+
+/** Flag values known to work for CreateTweet, used when the web client does not say otherwise. */
+export const CREATE_TWEET_FEATURES: Record<string, boolean> = {
+  c9s_tweet_anatomy_moderator_badge_enabled: true,
+  tweetypie_unmention_optimization_enabled: true,
+  responsive_web_edit_tweet_api_enabled: true,
+  graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
+  view_counts_everywhere_api_enabled: true,
+  longform_notetweets_consumption_enabled: true,
+  responsive_web_twitter_article_tweet_consumption_enabled: false,
+  tweet_awards_web_tipping_enabled: false,
+  responsive_web_home_pinned_timelines_enabled: true,
+  longform_notetweets_rich_text_read_enabled: true,
+  longform_notetweets_inline_media_enabled: true,
+  responsive_web_graphql_exclude_directive_enabled: true,
+  verified_phone_label_enabled: false,
+  freedom_of_speech_not_reach_fetch_enabled: true,
+  standardized_nudges_misinfo: true,
+  tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled: true,
+  responsive_web_media_download_video_enabled: false,
+  responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+  responsive_web_graphql_timeline_navigation_enabled: true,
+  responsive_web_enhance_cards_enabled: false
+};
+
+const OPERATION_PATTERN =
+  /queryId\s*:\s*["']([\w-]+)["']\s*,\s*operationName\s*:\s*["'](\w+)["']\s*,\s*operationType\s*:\s*["'](\w+)["']\s*,\s*metadata\s*:\s*\{\s*featureSwitches\s*:\s*\[([^\]]*)\]/g;
+
+const MAIN_BUNDLE_PATTERN = /https:\/\/abs\.twimg\.com\/responsive-web\/client-web(?:-legacy)?\/main\.[\w-]+\.js/;
+
+const FEATURE_SWITCH_VALUE_PATTERN = /"([a-z0-9_]+)"\s*:\s*\{\s*"value"\s*:\s*(true|false)\s*\}/g;
+
+/** Messages the GraphQL endpoint answers with when the query ID or its flags are stale. */
+const STALE_OPERATION_PATTERN =
+  /query:\s*unspecified|query not found|unknown query|features cannot be null|feature switch(?:es)? .*(?:missing|null)/i;
+
+/** Extracts every GraphQL operation definition (`{queryId, operationName, ...}`) from a bundle. */
+export function parseGraphqlOperations(bundle: string): Map<string, DiscoveredTwitterGraphqlOperation> {
+  const operations = new Map<string, DiscoveredTwitterGraphqlOperation>();
+
+  for (const match of bundle.matchAll(OPERATION_PATTERN)) {
+    const [, queryId, operationName, operationType, switches] = match;
+    const featureSwitches = [...switches.matchAll(/["']([\w-]+)["']/g)].map((item) => item[1]);
+    operations.set(operationName, { queryId, operationName, operationType, featureSwitches });
+  }
+
+  return operations;
+}
+
+/** Finds the main client bundle referenced by the web app's HTML shell. */
+export function findMainBundleUrl(html: string): string | undefined {
+  return html.match(MAIN_BUNDLE_PATTERN)?.[0];
+}
+
+/** Reads the `{"name": {"value": bool}}` feature switch defaults embedded in the HTML shell. */
+export function parseFeatureSwitchValues(html: string): Map<string, boolean> {
+  const values = new Map<string, boolean>();
+  for (const match of html.matchAll(FEATURE_SWITCH_VALUE_PATTERN)) {
+    if (!values.has(match[1])) {
+      values.set(match[1], match[2] === "true");
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Resolves an operation's declared flags to values: the HTML shell's defaults first, then the
+ * known-good CreateTweet values, and `false` for anything new.
+ */
+export function resolveOperationFeatures(
+  operation: DiscoveredTwitterGraphqlOperation,
+  switchValues: Map<string, boolean>
+): Record<string, boolean> {
+  const features: Record<string, boolean> = {};
+  for (const name of operation.featureSwitches) {
+    features[name] = switchValues.get(name) ?? CREATE_TWEET_FEATURES[name] ?? false;
+  }
+
+  return features;
+}
+
+/**
+ * Whether a failed call points at a stale query ID or flags. A 404 only counts with an empty
+ * body, i.e. the operation's path itself is unknown; a 404 that explains itself (a tweet
+ * already deleted, a reply parent that is gone) is about the request, not the query ID.
+ */
+export function isStaleOperationError(error: unknown): boolean {
+  const details = (error ?? {}) as { statusCode?: unknown; body?: unknown };
+  const message = error instanceof Error ? error.message : String(error);
+  const body = typeof details.body === "string" ? details.body : undefined;
+  if (STALE_OPERATION_PATTERN.test(message) || (body !== undefined && STALE_OPERATION_PATTERN.test(body))) {
+    return true;
+  }
+
+  return details.statusCode === 404 && body !== undefined && body.trim() === "";
+}
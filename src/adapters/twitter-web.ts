@@ -0,0 +1,837 @@
+import type { Logger } from "pino";
+import { z } from "zod";
+import { defineEnv, optionalString } from "../config/env.js";
+import type { AppDatabase } from "../core/db.js";
+import type { MediaAsset } from "../core/types.js";
+import { SessionExpiredError } from "./base.js";
+import { twitterMediaCategory, type TwitterBackend, type TwitterSensitiveMediaWarning } from "./twitter-backend.js";
+import {
+  CREATE_TWEET_FEATURES,
+  findMainBundleUrl,
+  isStaleOperationError,
+  parseFeatureSwitchValues,
+  parseGraphqlOperations,
+  resolveOperationFeatures,
+  type TwitterGraphqlOperation,
+  type TwitterGraphqlOperationName
+} from "./twitter-graphql.js";
+
+const twitterWebEnv = defineEnv(
+  z.object({
+    TWITTER_WEB_BEARER_TOKEN: z
+      .string()
+      .default(
+        "Bearer AAAAAAAAAAAAAAAAAAAAANRILgAAAAAAnNwIzUejRCOuH5E6I8xnZz4puTs%3D1Zv7ttfk8LF81IUq16cHjhLTvJu4FA33AGWWjCpTnA"
+      ),
+    TWITTER_WEB_BASE_URL: z.string().url().default("https://twitter.com"),
+    TWITTER_UPLOAD_BASE_URL: z.string().url().default("https://upload.twitter.com"),
+    TWITTER_WEB_CLIENT_LANGUAGE: z.string().default("en"),
+    TWITTER_CREATE_TWEET_QUERY_ID: z.string().default("I_J3_LvnnihD0Gjbq5pD2g"),
+    TWITTER_DELETE_TWEET_QUERY_ID: z.string().default("VaenaVgh5q5ih7kvyVjgtg"),
+    TWITTER_CREATE_NOTE_TWEET_QUERY_ID: optionalString
+  })
+);
+
+const MEDIA_CHUNK_SIZE = 1_084_576;
+const MEDIA_STATUS_MAX_POLLS = 1_200;
+
+// Discovered query IDs are shared by every account and target using the web backend.
+const GRAPHQL_OPERATIONS_STATE_KEY = "twitter_graphql_operations";
+
+/** Cookies Twitter rotated since boot, valid only while the configured cookie is unchanged. */
+interface StoredWebSession {
+  configured: string;
+  cookie: string;
+  updatedAt: string;
+}
+
+interface CachedGraphqlOperations {
+  discoveredAt: string;
+  operations: Partial<Record<TwitterGraphqlOperationName, TwitterGraphqlOperation>>;
+}
+
+interface UploadProcessingInfo {
+  state?: string;
+  check_after_secs?: number;
+  progress_percent?: number;
+  error?: {
+    code?: number;
+    name?: string;
+    message?: string;
+  };
+}
+
+interface UploadResponse {
+  media_id_string?: string;
+  processing_info?: UploadProcessingInfo;
+  errors?: Array<{ message?: string }>;
+}
+
+interface CreateTweetResponse {
+  data?: {
+    create_tweet?: {
+      tweet_results?: {
+        result?: {
+          rest_id?: string;
+          legacy?: {
+            id_str?: string;
+          };
+          tweet?: {
+            rest_id?: string;
+          };
+        };
+      };
+    };
+    notetweet_create?: {
+      tweet_results?: {
+        result?: {
+          rest_id?: string;
+          legacy?: {
+            id_str?: string;
+          };
+        };
+      };
+    };
+  };
+  errors?: Array<{ message?: string }>;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function headersToRecord(headers: Headers): Record<string, string> {
+  const output: Record<string, string> = {};
+  for (const [name, value] of headers.entries()) {
+    output[name.toLowerCase()] = value;
+  }
+  return output;
+}
+
+function parseNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+
+  return undefined;
+}
+
+function buildRateLimit(headers: Record<string, string>):
+  | {
+      reset?: number;
+      day?: { reset?: number };
+      userDay?: { reset?: number };
+    }
+  | undefined {
+  const reset = parseNumber(headers["x-rate-limit-reset"]);
+  const dayReset = parseNumber(headers["x-app-limit-24hour-reset"]);
+  const userDayReset = parseNumber(headers["x-user-limit-24hour-reset"]);
+
+  if (!reset && !dayReset && !userDayReset) {
+    return undefined;
+  }
+
+  return {
+    reset,
+    day: dayReset ? { reset: dayReset } : undefined,
+    userDay: userDayReset ? { reset: userDayReset } : undefined
+  };
+}
+
+function firstApiErrorMessage(payload: unknown): string | undefined {
+  if (!payload || typeof payload !== "object") {
+    return undefined;
+  }
+
+  const candidate = payload as {
+    errors?: Array<{ message?: unknown }>;
+    error?: unknown;
+    detail?: unknown;
+    title?: unknown;
+  };
+
+  if (Array.isArray(candidate.errors) && candidate.errors[0] && typeof candidate.errors[0].message === "string") {
+    return candidate.errors[0].message;
+  }
+
+  if (typeof candidate.error === "string") {
+    return candidate.error;
+  }
+
+  if (typeof candidate.detail === "string") {
+    return candidate.detail;
+  }
+
+  if (typeof candidate.title === "string") {
+    return candidate.title;
+  }
+
+  return undefined;
+}
+
+function parseCookieJar(cookie: string): Map<string, string> {
+  const jar = new Map<string, string>();
+  for (const pair of cookie.split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      jar.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+    }
+  }
+
+  return jar;
+}
+
+function serializeCookieJar(jar: Map<string, string>): string {
+  return [...jar.entries()].map(([name, value]) => `${name}=${value}`).join("; ");
+}
+
+/** 401s and csrf mismatches mean the cookies are dead; other 403s (duplicates etc.) do not. */
+function isSessionFailure(statusCode: number, message: string): boolean {
+  return (
+    statusCode === 401 ||
+    (statusCode === 403 && /csrf/i.test(message)) ||
+    /could not authenticate you|bad authentication data/i.test(message)
+  );
+}
+
+function extractTweetId(payload: CreateTweetResponse): string | undefined {
+  return (
+    payload.data?.create_tweet?.tweet_results?.result?.rest_id ??
+    payload.data?.create_tweet?.tweet_results?.result?.legacy?.id_str ??
+    payload.data?.create_tweet?.tweet_results?.result?.tweet?.rest_id ??
+    payload.data?.notetweet_create?.tweet_results?.result?.rest_id ??
+    payload.data?.notetweet_create?.tweet_results?.result?.legacy?.id_str
+  );
+}
+
+class TwitterWebApiError extends Error {
+  readonly code: number;
+  readonly status: number;
+  readonly statusCode: number;
+  readonly headers: Record<string, string>;
+  /** Raw response body; empty for a 404 on an unknown GraphQL query ID. */
+  readonly body: string;
+  readonly rateLimit?: {
+    reset?: number;
+    day?: { reset?: number };
+    userDay?: { reset?: number };
+  };
+
+  constructor(message: string, params: { statusCode: number; headers: Record<string, string>; body?: string }) {
+    super(message);
+    this.name = "TwitterWebApiError";
+    this.code = params.statusCode;
+    this.status = params.statusCode;
+    this.statusCode = params.statusCode;
+    this.headers = params.headers;
+    this.body = params.body ?? "";
+    this.rateLimit = buildRateLimit(params.headers);
+  }
+}
+
+/**
+ * Posts through the internal web GraphQL endpoints with the session cookies of a logged-in
+ * browser (OldTwitter-style), so no developer app is needed. When Twitter rotates the
+ * GraphQL query IDs, current ones are rediscovered from the web client's bundle.
+ */
+export class TwitterWebBackend implements TwitterBackend {
+  readonly mode = "web" as const;
+  private readonly log: Logger;
+  private readonly db: AppDatabase;
+  private readonly env = twitterWebEnv();
+  private readonly apiBaseUrl = this.env.TWITTER_WEB_BASE_URL.replace(/\/$/, "");
+  private readonly uploadBaseUrl = this.env.TWITTER_UPLOAD_BASE_URL.replace(/\/$/, "");
+  private readonly configuredCookie: string;
+  private readonly sessionStateKey: string;
+  private cookie: string;
+  private csrfToken: string;
+
+  constructor(params: { db: AppDatabase; target: string; cookie: string; ct0: string; log: Logger }) {
+    this.db = params.db;
+    this.log = params.log;
+    this.configuredCookie = params.cookie;
+    this.sessionStateKey = `twitter_web_session:${params.db.accountId}:${params.target}`;
+    this.cookie = params.cookie;
+    this.csrfToken = params.ct0;
+
+    // Cookies rotated by Twitter before a restart beat the configured ones they replaced.
+    const stored = this.storedSession();
+    if (stored?.configured === params.cookie) {
+      this.cookie = stored.cookie;
+      this.csrfToken = parseCookieJar(stored.cookie).get("ct0") ?? params.ct0;
+    }
+  }
+
+  private storedSession(): StoredWebSession | null {
+    const stored = this.db.getSyncState(this.sessionStateKey);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored) as StoredWebSession;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Applies `Set-Cookie` rotations (notably `ct0`) and persists them for the next restart. */
+  private captureCookies(headers: Headers): void {
+    const setCookies = headers.getSetCookie();
+    if (setCookies.length === 0) {
+      return;
+    }
+
+    const jar = parseCookieJar(this.cookie);
+    for (const header of setCookies) {
+      const [pair, ...attributes] = header.split(";");
+      const separator = pair.indexOf("=");
+      if (separator <= 0) {
+        continue;
+      }
+
+      const name = pair.slice(0, separator).trim();
+      const value = pair.slice(separator + 1).trim();
+      const expired = attributes.some((attribute) => {
+        const [key, attributeValue = ""] = attribute.split("=").map((part) => part.trim());
+        return (
+          (key.toLowerCase() === "max-age" && Number(attributeValue) <= 0) ||
+          (key.toLowerCase() === "expires" && Date.parse(attributeValue) <= Date.now())
+        );
+      });
+
+      // Only track cookies the session already carries; tracking cookies are not needed.
+      if (!jar.has(name)) {
+        continue;
+      }
+
+      if (expired || !value) {
+        jar.delete(name);
+      } else {
+        jar.set(name, value);
+      }
+    }
+
+    const cookie = serializeCookieJar(jar);
+    if (cookie === this.cookie) {
+      return;
+    }
+
+    const previousCsrfToken = this.csrfToken;
+    this.cookie = cookie;
+    this.csrfToken = jar.get("ct0") ?? "";
+
+    const session: StoredWebSession = {
+      configured: this.configuredCookie,
+      cookie,
+      updatedAt: new Date().toISOString()
+    };
+    this.db.setSyncState(this.sessionStateKey, JSON.stringify(session));
+
+    this.log.info(
+      {
+        ct0Rotated: previousCsrfToken !== this.csrfToken,
+        authTokenPresent: jar.has("auth_token")
+      },
+      "Captured rotated Twitter session cookies"
+    );
+  }
+
+  private toResponseError(
+    message: string,
+    params: { statusCode: number; headers: Record<string, string>; body?: string }
+  ): Error {
+    if (isSessionFailure(params.statusCode, message)) {
+      return new SessionExpiredError(`Twitter session rejected: ${message}`, { statusCode: params.statusCode });
+    }
+
+    return new TwitterWebApiError(message, params);
+  }
+
+  /** Reads account settings, the cheapest authenticated web endpoint. */
+  async checkSession(): Promise<void> {
+    if (!parseCookieJar(this.cookie).has("auth_token") || !this.csrfToken) {
+      throw new SessionExpiredError("Twitter session cookies were cleared by the server");
+    }
+
+    await this.fetchJson<Record<string, unknown>>(`${this.apiBaseUrl}/i/api/1.1/account/settings.json`, {
+      method: "GET",
+      headers: this.buildHeaders()
+    });
+  }
+
+  async init(): Promise<void> {
+    if (!this.cookie.includes("auth_token=")) {
+      throw new Error("An auth_token cookie is required for Twitter adapter");
+    }
+
+    if (!this.csrfToken) {
+      throw new Error("A ct0 cookie is required for Twitter adapter");
+    }
+
+    this.log.info(
+      {
+        apiBaseUrl: this.apiBaseUrl,
+        uploadBaseUrl: this.uploadBaseUrl
+      },
+      "Using Twitter web API backend"
+    );
+  }
+
+  private buildHeaders(extra?: Record<string, string>): Record<string, string> {
+    return {
+      authorization: this.env.TWITTER_WEB_BEARER_TOKEN,
+      "x-csrf-token": this.csrfToken,
+      "x-twitter-auth-type": "OAuth2Session",
+      "x-twitter-active-user": "yes",
+      "x-twitter-client-language": this.env.TWITTER_WEB_CLIENT_LANGUAGE,
+      cookie: this.cookie,
+      ...extra
+    };
+  }
+
+  private async fetchJson<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await fetch(url, init);
+    this.captureCookies(response.headers);
+    const responseHeaders = headersToRecord(response.headers);
+    const rawText = await response.text();
+
+    let payload: unknown = {};
+    if (rawText.trim().length > 0) {
+      try {
+        payload = JSON.parse(rawText);
+      } catch {
+        payload = { raw: rawText };
+      }
+    }
+
+    if (!response.ok) {
+      const message =
+        firstApiErrorMessage(payload) ??
+        (typeof (payload as { raw?: unknown }).raw === "string"
+          ? (payload as { raw: string }).raw
+          : `Twitter request failed (${response.status}): ${response.statusText}`);
+
+      throw this.toResponseError(message, {
+        statusCode: response.status,
+        headers: responseHeaders,
+        body: rawText
+      });
+    }
+
+    const apiError = firstApiErrorMessage(payload);
+    if (apiError) {
+      throw isSessionFailure(response.status, apiError)
+        ? new SessionExpiredError(`Twitter session rejected: ${apiError}`)
+        : new Error(apiError);
+    }
+
+    return payload as T;
+  }
+
+  private async fetchOk(url: string, init: RequestInit): Promise<void> {
+    const response = await fetch(url, init);
+    this.captureCookies(response.headers);
+    if (response.ok) {
+      return;
+    }
+
+    const responseHeaders = headersToRecord(response.headers);
+    const rawText = await response.text();
+
+    let payload: unknown;
+    try {
+      payload = rawText.trim() ? JSON.parse(rawText) : undefined;
+    } catch {
+      payload = { raw: rawText };
+    }
+
+    const fallbackText = rawText.trim();
+    const message =
+      firstApiErrorMessage(payload) ??
+      (fallbackText || `Twitter request failed (${response.status}): ${response.statusText}`);
+
+    throw this.toResponseError(message, {
+      statusCode: response.status,
+      headers: responseHeaders,
+      body: rawText
+    });
+  }
+
+  private async setMediaMetadata(
+    mediaId: string,
+    media: MediaAsset,
+    sensitiveWarnings: TwitterSensitiveMediaWarning[]
+  ): Promise<void> {
+    if (!media.altText && sensitiveWarnings.length === 0) {
+      return;
+    }
+
+    try {
+      await this.fetchJson<Record<string, unknown>>(`${this.uploadBaseUrl}/1.1/media/metadata/create.json`, {
+        method: "POST",
+        headers: this.buildHeaders({
+          "content-type": "application/json"
+        }),
+        body: JSON.stringify({
+          media_id: mediaId,
+          ...(media.altText ? { alt_text: { text: media.altText.slice(0, 1000) } } : {}),
+          ...(sensitiveWarnings.length > 0 ? { sensitive_media_warning: sensitiveWarnings } : {})
+        })
+      });
+    } catch (error) {
+      this.log.warn(
+        {
+          mediaId,
+          error: error instanceof Error ? error.message : String(error)
+        },
+        "Failed to attach Twitter media metadata; continuing"
+      );
+    }
+  }
+
+  private async waitForMediaProcessing(mediaId: string, processing: UploadProcessingInfo): Promise<void> {
+    let info: UploadProcessingInfo | undefined = processing;
+
+    for (let attempt = 0; attempt < MEDIA_STATUS_MAX_POLLS; attempt += 1) {
+      const state = info?.state;
+
+      if (!state || state === "succeeded") {
+        return;
+      }
+
+      if (state === "failed") {
+        const details = info?.error;
+        if (details?.message) {
+          throw new Error(details.message);
+        }
+
+        throw new Error(
+          `Twitter rejected media${
+            details?.code ? ` with code ${details.code}` : ""
+          }${details?.name ? ` (${details.name})` : ""}`
+        );
+      }
+
+      if (state !== "pending" && state !== "in_progress") {
+        throw new Error(`Unexpected Twitter media processing state: ${state}`);
+      }
+
+      const waitMs = Math.max(1, info?.check_after_secs ?? 1) * 1000;
+      await sleep(waitMs);
+
+      const statusResponse = await this.fetchJson<UploadResponse>(
+        `${this.uploadBaseUrl}/1.1/media/upload.json?${new URLSearchParams({
+          command: "STATUS",
+          media_id: mediaId
+        }).toString()}`,
+        {
+          method: "GET",
+          headers: this.buildHeaders({
+            "content-type": "application/x-www-form-urlencoded; charset=UTF-8"
+          })
+        }
+      );
+
+      info = statusResponse.processing_info;
+    }
+
+    throw new Error("Timed out while waiting for Twitter media processing to finish");
+  }
+
+  async uploadMedia(
+    media: MediaAsset,
+    options: { sensitiveWarnings?: TwitterSensitiveMediaWarning[] } = {}
+  ): Promise<string> {
+    const initPayload = new URLSearchParams({
+      command: "INIT",
+      total_bytes: String(media.data.byteLength),
+      media_type: media.mimeType,
+      media_category: twitterMediaCategory(media)
+    });
+
+    const initResponse = await this.fetchJson<UploadResponse>(`${this.uploadBaseUrl}/1.1/media/upload.json`, {
+      method: "POST",
+      headers: this.buildHeaders({
+        "content-type": "application/x-www-form-urlencoded; charset=UTF-8"
+      }),
+      body: initPayload.toString()
+    });
+
+    const mediaId = initResponse.media_id_string;
+    if (!mediaId) {
+      throw new Error("Twitter media INIT did not return media_id_string");
+    }
+
+    const totalSegments = Math.ceil(media.data.byteLength / MEDIA_CHUNK_SIZE);
+
+    for (let segmentIndex = 0; segmentIndex < totalSegments; segmentIndex += 1) {
+      const start = segmentIndex * MEDIA_CHUNK_SIZE;
+      const end = Math.min(start + MEDIA_CHUNK_SIZE, media.data.byteLength);
+      const chunk = media.data.subarray(start, end);
+
+      const form = new FormData();
+      form.set("command", "APPEND");
+      form.set("media_id", mediaId);
+      form.set("segment_index", String(segmentIndex));
+      form.set(
+        "media",
+        new Blob([Uint8Array.from(chunk)], { type: media.mimeType }),
+        media.filename ?? `media-${segmentIndex}`
+      );
+
+      await this.fetchOk(`${this.uploadBaseUrl}/1.1/media/upload.json`, {
+        method: "POST",
+        headers: this.buildHeaders(),
+        body: form
+      });
+    }
+
+    const finalizeResponse = await this.fetchJson<UploadResponse>(`${this.uploadBaseUrl}/1.1/media/upload.json`, {
+      method: "POST",
+      headers: this.buildHeaders({
+        "content-type": "application/x-www-form-urlencoded; charset=UTF-8"
+      }),
+      body: new URLSearchParams({
+        command: "FINALIZE",
+        media_id: mediaId
+      }).toString()
+    });
+
+    await this.setMediaMetadata(mediaId, media, options.sensitiveWarnings ?? []);
+
+    if (finalizeResponse.processing_info) {
+      await this.waitForMediaProcessing(mediaId, finalizeResponse.processing_info);
+    }
+
+    return mediaId;
+  }
+
+  async createTweet(params: {
+    text: string;
+    mediaIds: string[];
+    replyToTweetId?: string;
+    longPost?: boolean;
+    sensitive?: boolean;
+  }): Promise<string> {
+    const variables: Record<string, unknown> = {
+      tweet_text: params.text,
+      media: {
+        media_entities: params.mediaIds.map((mediaId) => ({
+          media_id: mediaId,
+          tagged_users: []
+        })),
+        possibly_sensitive: Boolean(params.sensitive)
+      },
+      semantic_annotation_ids: [],
+      dark_request: false
+    };
+
+    if (params.longPost) {
+      variables.richtext_options = { richtext_tags: [] };
+    }
+
+    if (params.replyToTweetId) {
+      variables.reply = {
+        in_reply_to_tweet_id: params.replyToTweetId,
+        exclude_reply_user_ids: []
+      };
+    }
+
+    // Note tweets go through their own mutation; the response carries `notetweet_create`.
+    const operationName = params.longPost ? "CreateNoteTweet" : "CreateTweet";
+    const payload = await this.runOperation(operationName, (operation) =>
+      this.fetchJson<CreateTweetResponse>(`${this.apiBaseUrl}/i/api/graphql/${operation.queryId}/${operationName}`, {
+        method: "POST",
+        headers: this.buildHeaders({
+          "content-type": "application/json; charset=utf-8"
+        }),
+        body: JSON.stringify({
+          variables,
+          features: operation.features,
+          queryId: operation.queryId
+        })
+      })
+    );
+
+    const tweetId = extractTweetId(payload);
+    if (!tweetId) {
+      throw new Error(`Twitter ${operationName} response missing tweet id`);
+    }
+
+    return tweetId;
+  }
+
+  async deleteTweet(tweetId: string): Promise<void> {
+    await this.runOperation("DeleteTweet", (operation) =>
+      this.fetchJson<Record<string, unknown>>(`${this.apiBaseUrl}/i/api/graphql/${operation.queryId}/DeleteTweet`, {
+        method: "POST",
+        headers: this.buildHeaders({
+          "content-type": "application/json; charset=utf-8"
+        }),
+        body: JSON.stringify({
+          variables: {
+            tweet_id: tweetId,
+            dark_request: false
+          },
+          ...(Object.keys(operation.features).length > 0 ? { features: operation.features } : {}),
+          queryId: operation.queryId
+        })
+      })
+    );
+  }
+
+  /** An empty query ID means there is no known default and it has to be discovered first. */
+  private defaultOperation(name: TwitterGraphqlOperationName): TwitterGraphqlOperation {
+    switch (name) {
+      case "CreateTweet":
+        return { queryId: this.env.TWITTER_CREATE_TWEET_QUERY_ID, features: CREATE_TWEET_FEATURES };
+      case "CreateNoteTweet":
+        return { queryId: this.env.TWITTER_CREATE_NOTE_TWEET_QUERY_ID ?? "", features: CREATE_TWEET_FEATURES };
+      case "DeleteTweet":
+        return { queryId: this.env.TWITTER_DELETE_TWEET_QUERY_ID, features: {} };
+    }
+  }
+
+  private cachedOperations(): CachedGraphqlOperations | null {
+    const stored = this.db.getSyncState(GRAPHQL_OPERATIONS_STATE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored) as CachedGraphqlOperations;
+    } catch {
+      return null;
+    }
+  }
+
+  private currentOperation(name: TwitterGraphqlOperationName): TwitterGraphqlOperation {
+    return this.cachedOperations()?.operations[name] ?? this.defaultOperation(name);
+  }
+
+  /**
+   * Runs a GraphQL call and, if Twitter no longer recognises the query ID or its flags,
+   * retries it once with freshly discovered values. Another target may already have
+   * rediscovered them, in which case the cached values are used without refetching.
+   */
+  private async runOperation<T>(
+    name: TwitterGraphqlOperationName,
+    call: (operation: TwitterGraphqlOperation) => Promise<T>
+  ): Promise<T> {
+    let operation = this.currentOperation(name);
+    if (!operation.queryId) {
+      const discovered = (await this.discoverOperations())[name];
+      if (!discovered) {
+        throw new Error(`No ${name} query ID is configured and none could be discovered`);
+      }
+      operation = discovered;
+    }
+
+    try {
+      return await call(operation);
+    } catch (error) {
+      if (!isStaleOperationError(error)) {
+        throw error;
+      }
+
+      let refreshed = this.currentOperation(name);
+      if (refreshed.queryId === operation.queryId) {
+        this.log.warn(
+          {
+            operation: name,
+            queryId: operation.queryId,
+            error: error instanceof Error ? error.message : String(error)
+          },
+          "Twitter rejected GraphQL query; rediscovering query IDs"
+        );
+
+        try {
+          refreshed = (await this.discoverOperations())[name] ?? operation;
+        } catch (discoveryError) {
+          this.log.error(
+            {
+              error: discoveryError instanceof Error ? discoveryError.message : String(discoveryError)
+            },
+            "Failed to discover Twitter GraphQL query IDs"
+          );
+          throw error;
+        }
+      }
+
+      if (JSON.stringify(refreshed) === JSON.stringify(operation)) {
+        throw error;
+      }
+
+      return call(refreshed);
+    }
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, {
+      headers: {
+        cookie: this.cookie,
+        "user-agent": "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36"
+      }
+    });
+    this.captureCookies(response.headers);
+
+    if (!response.ok) {
+      throw new Error(`Twitter request failed (${response.status}): ${url}`);
+    }
+
+    return response.text();
+  }
+
+  /** Fetches the web client's main bundle, extracts current operations and caches them. */
+  private async discoverOperations(): Promise<CachedGraphqlOperations["operations"]> {
+    const html = await this.fetchText(`${this.apiBaseUrl}/home`);
+    const bundleUrl = findMainBundleUrl(html);
+    if (!bundleUrl) {
+      throw new Error("Could not find the Twitter web client bundle in the home page");
+    }
+
+    const discovered = parseGraphqlOperations(await this.fetchText(bundleUrl));
+    const switchValues = parseFeatureSwitchValues(html);
+    const operations: CachedGraphqlOperations["operations"] = {};
+
+    for (const name of ["CreateTweet", "CreateNoteTweet", "DeleteTweet"] as const) {
+      const operation = discovered.get(name);
+      if (operation) {
+        operations[name] = {
+          queryId: operation.queryId,
+          features: resolveOperationFeatures(operation, switchValues)
+        };
+      }
+    }
+
+    if (!operations.CreateTweet && !operations.DeleteTweet) {
+      throw new Error(`No CreateTweet/DeleteTweet operations found in ${bundleUrl}`);
+    }
+
+    const cached: CachedGraphqlOperations = {
+      discoveredAt: new Date().toISOString(),
+      operations: { ...this.cachedOperations()?.operations, ...operations }
+    };
+    this.db.setSyncState(GRAPHQL_OPERATIONS_STATE_KEY, JSON.stringify(cached));
+
+    this.log.info(
+      {
+        bundleUrl,
+        createTweetQueryId: cached.operations.CreateTweet?.queryId,
+        createNoteTweetQueryId: cached.operations.CreateNoteTweet?.queryId,
+        deleteTweetQueryId: cached.operations.DeleteTweet?.queryId
+      },
+      "Discovered Twitter GraphQL query IDs"
+    );
+
+    return cached.operations;
+  }
+}
@@ -1,643 +1,460 @@
-import { env } from "../config/env.js";
+import type { Logger } from "pino";
+import { z } from "zod";
+import { booleanFlag, defineEnv, optionalString, targetDefaultsFromEnv } from "../config/env.js";
 import { logger } from "../config/logger.js";
-import type { PlatformAdapter } from "./base.js";
-import type { CrossPost, MediaAsset, PostResult } from "../core/types.js";
+import type { TargetInstance } from "../config/accounts.js";
+import { DailyLimitError, DependencyNotReadyError, PostDroppedError, type PlatformAdapter } from "./base.js";
+import type { AdapterModule } from "./registry.js";
+import { isLongPostUnsupportedError, twitterSensitiveMediaWarnings, type TwitterBackend } from "./twitter-backend.js";
+import { TwitterWebBackend } from "./twitter-web.js";
+import { TwitterApiBackend, type TwitterApiCredentials } from "./twitter-api.js";
+import type { CrossPost, PostResult, TargetKey } from "../core/types.js";
 import { AppDatabase } from "../core/db.js";
-import { countByTwitterRules, splitIntoThread } from "../core/text-splitter.js";
-import { buildPostTextWithSelfQuote } from "../core/quote-context.js";
-
-const MAX_MEDIA_ATTACHMENTS = 4;
-const MEDIA_CHUNK_SIZE = 1_084_576;
-const MEDIA_STATUS_MAX_POLLS = 1_200;
-
-const CREATE_TWEET_FEATURES = {
-  c9s_tweet_anatomy_moderator_badge_enabled: true,
-  tweetypie_unmention_optimization_enabled: true,
-  responsive_web_edit_tweet_api_enabled: true,
-  graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
-  view_counts_everywhere_api_enabled: true,
-  longform_notetweets_consumption_enabled: true,
-  responsive_web_twitter_article_tweet_consumption_enabled: false,
-  tweet_awards_web_tipping_enabled: false,
-  responsive_web_home_pinned_timelines_enabled: true,
-  longform_notetweets_rich_text_read_enabled: true,
-  longform_notetweets_inline_media_enabled: true,
-  responsive_web_graphql_exclude_directive_enabled: true,
-  verified_phone_label_enabled: false,
-  freedom_of_speech_not_reach_fetch_enabled: true,
-  standardized_nudges_misinfo: true,
-  tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled: true,
-  responsive_web_media_download_video_enabled: false,
-  responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
-  responsive_web_graphql_timeline_navigation_enabled: true,
-  responsive_web_enhance_cards_enabled: false
-} as const;
-
-interface UploadProcessingInfo {
-  state?: string;
-  check_after_secs?: number;
-  progress_percent?: number;
-  error?: {
-    code?: number;
-    name?: string;
-    message?: string;
-  };
-}
-
-interface UploadResponse {
-  media_id_string?: string;
-  processing_info?: UploadProcessingInfo;
-  errors?: Array<{ message?: string }>;
-}
-
-interface CreateTweetResponse {
-  data?: {
-    create_tweet?: {
-      tweet_results?: {
-        result?: {
-          rest_id?: string;
-          legacy?: {
-            id_str?: string;
-          };
-          tweet?: {
-            rest_id?: string;
-          };
-        };
-      };
-    };
-    notetweet_create?: {
-      tweet_results?: {
-        result?: {
-          rest_id?: string;
-          legacy?: {
-            id_str?: string;
-          };
-        };
-      };
-    };
-  };
-  errors?: Array<{ message?: string }>;
-}
-
-function toUtcDay(date = new Date()): string {
-  return date.toISOString().slice(0, 10);
-}
-
-function msUntilNextUtcMidnight(now = new Date()): number {
-  const next = new Date(now);
-  next.setUTCHours(24, 0, 0, 0);
-  return next.getTime() - now.getTime();
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-function headersToRecord(headers: Headers): Record<string, string> {
-  const output: Record<string, string> = {};
-  for (const [name, value] of headers.entries()) {
-    output[name.toLowerCase()] = value;
-  }
-  return output;
-}
-
-function parseNumber(value: unknown): number | undefined {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
-
-  if (typeof value === "string") {
-    const parsed = Number(value);
-    if (Number.isFinite(parsed)) {
-      return parsed;
-    }
-  }
-
-  return undefined;
-}
-
-function buildRateLimit(headers: Record<string, string>):
-  | {
-      reset?: number;
-      day?: { reset?: number };
-      userDay?: { reset?: number };
-    }
-  | undefined {
-  const reset = parseNumber(headers["x-rate-limit-reset"]);
-  const dayReset = parseNumber(headers["x-app-limit-24hour-reset"]);
-  const userDayReset = parseNumber(headers["x-user-limit-24hour-reset"]);
-
-  if (!reset && !dayReset && !userDayReset) {
+import { countByTwitterRules, splitIntoThread, trimToLimit } from "../core/text-splitter.js";
+import { buildPostTextWithSelfQuote, toBlueskyAppPostUrl } from "../core/quote-context.js";
+import { ThreadCheckpoint } from "../core/thread-progress.js";
+import {
+  budgetWindowStart,
+  BUDGET_WINDOW_MS,
+  classifyPostPriority,
+  forecastBudgetSlot,
+  inheritParentPriority
+} from "../core/budget.js";
+import { sensitiveLabels } from "../core/labels.js";
+import { renderRichText } from "../core/rich-text.js";
+import { createMentionRenderer } from "../core/mentions.js";
+import { appendLinkCard, LINK_CARD_POLICIES } from "../core/link-card.js";
+import {
+  altTextOverflowText,
+  layoutThread,
+  mediaIdsPerEntry,
+  prepareMedia,
+  type MediaConstraints,
+  type PreparedMedia,
+  type ThreadEntry
+} from "../core/media-preparation.js";
+
+const MEDIA_CONSTRAINTS: MediaConstraints = {
+  maxPerPost: 4,
+  videoAlone: true,
+  maxImageBytes: 5 * 1024 * 1024,
+  maxImageDimension: 8192,
+  maxAnimatedBytes: 15 * 1024 * 1024,
+  maxVideoBytes: 512 * 1024 * 1024,
+  maxAltTextLength: 1000
+};
+const MAX_TWEET_LENGTH = 280;
+const MAX_LONG_POST_LENGTH = 25_000;
+// An account refused long posts; ask again after a while in case it was upgraded.
+const LONG_POST_RECHECK_MS = 7 * 24 * 60 * 60 * 1000;
+// t.co wraps every link to 23 characters; one more for the separating space.
+const COLLAPSED_LINK_LENGTH = 24;
+// How long after its parent's forecast slot a deferred self-reply is tried again.
+const PARENT_SETTLE_MS = 60_000;
+
+function parseCookieValue(cookie: string | undefined, key: string): string | undefined {
+  if (!cookie) {
     return undefined;
   }
 
-  return {
-    reset,
-    day: dayReset ? { reset: dayReset } : undefined,
-    userDay: userDayReset ? { reset: userDayReset } : undefined
-  };
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = cookie.match(new RegExp(`(?:^|;\\s*)${escaped}=([^;]+)`));
+  return match?.[1];
 }
 
-function firstApiErrorMessage(payload: unknown): string | undefined {
-  if (!payload || typeof payload !== "object") {
-    return undefined;
-  }
-
-  const candidate = payload as {
-    errors?: Array<{ message?: unknown }>;
-    error?: unknown;
-    detail?: unknown;
-    title?: unknown;
-  };
-
-  if (Array.isArray(candidate.errors) && candidate.errors[0] && typeof candidate.errors[0].message === "string") {
-    return candidate.errors[0].message;
-  }
-
-  if (typeof candidate.error === "string") {
-    return candidate.error;
-  }
-
-  if (typeof candidate.detail === "string") {
-    return candidate.detail;
-  }
-
-  if (typeof candidate.title === "string") {
-    return candidate.title;
-  }
-
-  return undefined;
+function buildTwitterWebCookie(authToken: string | undefined, ct0: string | undefined, extra: string | undefined): string {
+  return [authToken ? `auth_token=${authToken}` : undefined, ct0 ? `ct0=${ct0}` : undefined, extra]
+    .filter((item): item is string => Boolean(item))
+    .join("; ");
 }
 
-function extractTweetId(payload: CreateTweetResponse): string | undefined {
-  return (
-    payload.data?.create_tweet?.tweet_results?.result?.rest_id ??
-    payload.data?.create_tweet?.tweet_results?.result?.legacy?.id_str ??
-    payload.data?.create_tweet?.tweet_results?.result?.tweet?.rest_id ??
-    payload.data?.notetweet_create?.tweet_results?.result?.rest_id ??
-    payload.data?.notetweet_create?.tweet_results?.result?.legacy?.id_str
-  );
+function defaultTwitterMinPostIntervalMs(dailyLimit: number): number {
+  return Math.ceil((24 * 60 * 60 * 1000) / dailyLimit);
 }
 
-class TwitterWebApiError extends Error {
-  readonly code: number;
-  readonly status: number;
-  readonly statusCode: number;
-  readonly headers: Record<string, string>;
-  readonly rateLimit?: {
-    reset?: number;
-    day?: { reset?: number };
-    userDay?: { reset?: number };
-  };
-
-  constructor(message: string, params: { statusCode: number; headers: Record<string, string> }) {
-    super(message);
-    this.name = "TwitterWebApiError";
-    this.code = params.statusCode;
-    this.status = params.statusCode;
-    this.statusCode = params.statusCode;
-    this.headers = params.headers;
-    this.rateLimit = buildRateLimit(params.headers);
-  }
-}
-
-export class TwitterDailyLimitError extends Error {
-  readonly delayMs: number;
-  readonly day: string;
-  readonly currentCount: number;
-  readonly attemptedPosts: number;
-  readonly limit: number;
+/**
+ * The single-account variables. The session can be given as separate tokens or as a whole
+ * cookie header, from which the missing tokens are read.
+ */
+const twitterEnv = defineEnv(
+  z
+    .object({
+      TWITTER_BACKEND: z.enum(["web", "api"]).default("web"),
+      TWITTER_API_APP_KEY: optionalString,
+      TWITTER_API_APP_SECRET: optionalString,
+      TWITTER_API_ACCESS_TOKEN: optionalString,
+      TWITTER_API_ACCESS_SECRET: optionalString,
+      TWITTER_API_OAUTH2_ACCESS_TOKEN: optionalString,
+      TWITTER_API_OAUTH2_REFRESH_TOKEN: optionalString,
+      TWITTER_API_CLIENT_ID: optionalString,
+      TWITTER_API_CLIENT_SECRET: optionalString,
+
+      TWITTER_AUTH_TOKEN: optionalString,
+      TWITTER_CT0: optionalString,
+      TWITTER_WEB_COOKIE_EXTRA: optionalString,
+      TWITTER_WEB_COOKIE: optionalString,
+      TWITTER_WEB_CSRF_TOKEN: optionalString,
+
+      TWITTER_LONG_POSTS: booleanFlag,
+      TWITTER_DAILY_LIMIT: z.coerce.number().int().positive().default(17),
+      TWITTER_MIN_POST_INTERVAL_MS: z.coerce.number().int().positive().optional(),
+      TWITTER_MAX_AGE_MS: z.coerce.number().int().positive().optional(),
+      TWITTER_STALE_POLICY: z.enum(["drop", "collapse"]).default("drop"),
+      TWITTER_LINK_CARD: z.enum(LINK_CARD_POLICIES).default("url")
+    })
+    .transform((env) => {
+      const authToken = env.TWITTER_AUTH_TOKEN ?? parseCookieValue(env.TWITTER_WEB_COOKIE, "auth_token");
+      const ct0 = env.TWITTER_CT0 ?? env.TWITTER_WEB_CSRF_TOKEN ?? parseCookieValue(env.TWITTER_WEB_COOKIE, "ct0");
+      const cookieExtra = env.TWITTER_WEB_COOKIE_EXTRA?.trim().replace(/^;\s*/, "").replace(/;\s*$/, "");
+      return {
+        ...env,
+        TWITTER_AUTH_TOKEN: authToken,
+        TWITTER_CT0: ct0,
+        TWITTER_WEB_COOKIE: env.TWITTER_WEB_COOKIE || buildTwitterWebCookie(authToken, ct0, cookieExtra)
+      };
+    })
+);
 
+export class TwitterDailyLimitError extends DailyLimitError {
   constructor(params: {
-    day: string;
     currentCount: number;
     attemptedPosts: number;
     limit: number;
-    delayMs: number;
+    priority: number;
+    forecastAt: Date;
   }) {
     super(
-      `Twitter daily cap reached (${params.currentCount}/${params.limit}) on ${params.day}. Delaying ${params.attemptedPosts} post(s).`
+      `Twitter 24h cap reached (${params.currentCount}/${params.limit}). Deferring ${params.attemptedPosts} post(s) until ${params.forecastAt.toISOString()}.`,
+      params
     );
     this.name = "TwitterDailyLimitError";
-    this.delayMs = params.delayMs;
-    this.day = params.day;
-    this.currentCount = params.currentCount;
-    this.attemptedPosts = params.attemptedPosts;
-    this.limit = params.limit;
   }
 }
 
+function splitTweetText(text: string): string[] {
+  return splitIntoThread(text, {
+    maxLength: MAX_TWEET_LENGTH,
+    countLength: countByTwitterRules,
+    reserveForCounter: 8
+  });
+}
+
+function fitsLongPost(text: string): boolean {
+  const length = countByTwitterRules(text);
+  return length > MAX_TWEET_LENGTH && length <= MAX_LONG_POST_LENGTH;
+}
+
+/** A single tweet standing in for a stale thread: the opening text and a link to the original. */
+function collapseToSingleTweet(text: string, sourceUri: string): string {
+  const url = toBlueskyAppPostUrl(sourceUri);
+  const room = MAX_TWEET_LENGTH - (url ? COLLAPSED_LINK_LENGTH : 0) - 1;
+  const opening = trimToLimit(text.trim(), room, countByTwitterRules);
+  const collapsed = opening.length < text.trim().length ? `${opening}…` : opening;
+  return url ? `${collapsed} ${url}` : collapsed;
+}
+
+const twitterSharedSchema = {
+  dailyLimit: z
+    .number()
+    .int()
+    .positive()
+    .default(() => twitterEnv().TWITTER_DAILY_LIMIT),
+  minPostIntervalMs: z.number().int().positive().optional(),
+  longPosts: z.boolean().default(() => twitterEnv().TWITTER_LONG_POSTS),
+  /** Posts older than this (since creation on Bluesky) are dropped or collapsed per `stalePolicy`. */
+  maxAgeMs: z.number().int().positive().optional(),
+  stalePolicy: z.enum(["drop", "collapse"]).default(() => twitterEnv().TWITTER_STALE_POLICY),
+  linkCard: z.enum(LINK_CARD_POLICIES).default(() => twitterEnv().TWITTER_LINK_CARD)
+};
+
+const twitterWebConfigSchema = z
+  .object({
+    backend: z.literal("web").default("web"),
+    authToken: z.string().min(1),
+    ct0: z.string().min(1),
+    cookieExtra: z.string().optional(),
+    ...twitterSharedSchema
+  })
+  .transform(({ cookieExtra, ...config }) => ({
+    ...config,
+    cookie: buildTwitterWebCookie(config.authToken, config.ct0, cookieExtra),
+    minPostIntervalMs: config.minPostIntervalMs ?? defaultTwitterMinPostIntervalMs(config.dailyLimit)
+  }));
+
+const twitterApiConfigSchema = z
+  .object({
+    backend: z.literal("api"),
+    oauth1: z
+      .object({
+        appKey: z.string().min(1),
+        appSecret: z.string().min(1),
+        accessToken: z.string().min(1),
+        accessSecret: z.string().min(1)
+      })
+      .optional(),
+    oauth2: z
+      .object({
+        accessToken: z.string().min(1).optional(),
+        refreshToken: z.string().min(1).optional(),
+        clientId: z.string().min(1).optional(),
+        clientSecret: z.string().min(1).optional()
+      })
+      .refine((oauth2) => oauth2.accessToken || (oauth2.refreshToken && oauth2.clientId), {
+        message: "oauth2 needs an accessToken, or a refreshToken with a clientId"
+      })
+      .optional(),
+    ...twitterSharedSchema
+  })
+  .refine((config) => config.oauth1 || config.oauth2, {
+    message: "the api backend needs oauth1 or oauth2 credentials"
+  })
+  .transform((config) => ({
+    ...config,
+    minPostIntervalMs: config.minPostIntervalMs ?? defaultTwitterMinPostIntervalMs(config.dailyLimit)
+  }));
+
+const twitterConfigSchema = z.union([twitterWebConfigSchema, twitterApiConfigSchema]);
+
+export type TwitterTargetConfig = z.output<typeof twitterConfigSchema>;
+
 export class TwitterAdapter implements PlatformAdapter {
   readonly name = "twitter" as const;
-  private readonly log = logger.child({ module: "adapters/twitter" });
+  readonly target: TargetKey;
+  private readonly log: Logger;
   private readonly db: AppDatabase;
-  private readonly apiBaseUrl = env.TWITTER_WEB_BASE_URL.replace(/\/$/, "");
-  private readonly uploadBaseUrl = env.TWITTER_UPLOAD_BASE_URL.replace(/\/$/, "");
+  private readonly config: TwitterTargetConfig;
+  private readonly backend: TwitterBackend;
+  private readonly longPostStateKey: string;
 
-  private cookie = "";
-  private csrfToken = "";
-
-  constructor(db: AppDatabase) {
+  constructor(db: AppDatabase, target: TargetInstance<TwitterTargetConfig>) {
     this.db = db;
+    this.config = target.config;
+    this.target = target.key;
+    this.log = logger.child({ module: "adapters/twitter", account: db.accountId, target: this.target });
+    this.longPostStateKey = `twitter_long_posts_refused:${db.accountId}:${this.target}`;
+    this.backend =
+      this.config.backend === "api"
+        ? new TwitterApiBackend({ db, target: this.target, credentials: this.config, log: this.log })
+        : new TwitterWebBackend({
+            db,
+            target: this.target,
+            cookie: this.config.cookie,
+            ct0: this.config.ct0,
+            log: this.log
+          });
   }
 
   async init(): Promise<void> {
-    if (!env.TWITTER_AUTH_TOKEN) {
-      throw new Error("TWITTER_AUTH_TOKEN is required for Twitter adapter");
-    }
-
-    if (!env.TWITTER_CT0) {
-      throw new Error("TWITTER_CT0 is required for Twitter adapter");
-    }
-
-    this.csrfToken = env.TWITTER_CT0;
-    this.cookie =
-      env.TWITTER_WEB_COOKIE ??
-      [`auth_token=${env.TWITTER_AUTH_TOKEN}`, `ct0=${env.TWITTER_CT0}`, env.TWITTER_WEB_COOKIE_EXTRA]
-        .filter((item): item is string => Boolean(item))
-        .join("; ");
+    await this.backend.init();
 
     this.log.info(
       {
-        dailyLimit: env.TWITTER_DAILY_LIMIT,
-        minPostIntervalMs: env.TWITTER_MIN_POST_INTERVAL_MS,
-        apiBaseUrl: this.apiBaseUrl,
-        uploadBaseUrl: this.uploadBaseUrl
+        backend: this.backend.mode,
+        dailyLimit: this.config.dailyLimit,
+        minPostIntervalMs: this.config.minPostIntervalMs,
+        longPosts: this.config.longPosts
       },
-      "Initialized Twitter adapter (web API mode)"
+      "Initialized Twitter adapter"
     );
   }
 
-  private buildHeaders(extra?: Record<string, string>): Record<string, string> {
-    return {
-      authorization: env.TWITTER_WEB_BEARER_TOKEN,
-      "x-csrf-token": this.csrfToken,
-      "x-twitter-auth-type": "OAuth2Session",
-      "x-twitter-active-user": "yes",
-      "x-twitter-client-language": env.TWITTER_WEB_CLIENT_LANGUAGE,
-      cookie: this.cookie,
-      ...extra
-    };
-  }
-
-  private async fetchJson<T>(url: string, init: RequestInit): Promise<T> {
-    const response = await fetch(url, init);
-    const responseHeaders = headersToRecord(response.headers);
-    const rawText = await response.text();
-
-    let payload: unknown = {};
-    if (rawText.trim().length > 0) {
-      try {
-        payload = JSON.parse(rawText);
-      } catch {
-        payload = { raw: rawText };
-      }
-    }
-
-    if (!response.ok) {
-      const message =
-        firstApiErrorMessage(payload) ??
-        (typeof (payload as { raw?: unknown }).raw === "string"
-          ? (payload as { raw: string }).raw
-          : `Twitter request failed (${response.status}): ${response.statusText}`);
-
-      throw new TwitterWebApiError(message, {
-        statusCode: response.status,
-        headers: responseHeaders
-      });
-    }
+  /** Uploads the media of every thread entry, in thread order. */
+  private async uploadMedia(post: CrossPost, entries: ThreadEntry[]): Promise<string[]> {
+    const mediaIds: string[] = [];
+    const labels = sensitiveLabels(post);
+    const sensitiveWarnings = labels.length > 0 ? twitterSensitiveMediaWarnings(labels) : undefined;
 
-    const apiError = firstApiErrorMessage(payload);
-    if (apiError) {
-      throw new Error(apiError);
+    for (const media of entries.flatMap((entry) => entry.media)) {
+      const mediaId = await this.backend.uploadMedia(media, { sensitiveWarnings });
+      mediaIds.push(mediaId);
     }
 
-    return payload as T;
+    return mediaIds;
   }
 
-  private async fetchOk(url: string, init: RequestInit): Promise<void> {
-    const response = await fetch(url, init);
-    if (response.ok) {
-      return;
+  /** Long posts are used while the account has not refused one within LONG_POST_RECHECK_MS. */
+  private longPostsAllowed(): boolean {
+    if (!this.config.longPosts) {
+      return false;
     }
 
-    const responseHeaders = headersToRecord(response.headers);
-    const rawText = await response.text();
-
-    let payload: unknown;
-    try {
-      payload = rawText.trim() ? JSON.parse(rawText) : undefined;
-    } catch {
-      payload = { raw: rawText };
-    }
-
-    const fallbackText = rawText.trim();
-    const message =
-      firstApiErrorMessage(payload) ??
-      (fallbackText || `Twitter request failed (${response.status}): ${response.statusText}`);
-
-    throw new TwitterWebApiError(message, {
-      statusCode: response.status,
-      headers: responseHeaders
-    });
+    const refusedAt = this.db.getSyncState(this.longPostStateKey);
+    return !refusedAt || Date.now() - Date.parse(refusedAt) >= LONG_POST_RECHECK_MS;
   }
 
-  private mediaCategory(media: MediaAsset): "tweet_image" | "tweet_video" | "tweet_gif" {
-    const mime = media.mimeType.toLowerCase();
-
-    if (mime === "image/gif" || media.filename?.toLowerCase().endsWith(".gif")) {
-      return "tweet_gif";
-    }
-
-    if (mime.startsWith("video/") || media.type === "video") {
-      return "tweet_video";
-    }
-
-    return "tweet_image";
+  private deadlineFor(post: CrossPost): number | undefined {
+    return this.config.maxAgeMs ? Date.parse(post.createdAt) + this.config.maxAgeMs : undefined;
   }
 
-  private async setMediaMetadata(mediaId: string, media: MediaAsset): Promise<void> {
-    if (!media.altText) {
+  /**
+   * Makes sure `posts` more tweets fit the rolling 24h window. If not, forecasts when they
+   * will, counting deferred jobs of the same or higher priority ahead of this one; a forecast
+   * past the max-age deadline drops the post, or is re-planned as one collapsed tweet.
+   */
+  private assertBudget(post: CrossPost, posts: number): void {
+    const postTimes = this.db.listTargetPostTimes(this.target, budgetWindowStart());
+    const limit = this.config.dailyLimit;
+    if (posts === 0 || postTimes.length + posts <= limit) {
       return;
     }
 
-    try {
-      await this.fetchJson<Record<string, unknown>>(`${this.uploadBaseUrl}/1.1/media/metadata/create.json`, {
-        method: "POST",
-        headers: this.buildHeaders({
-          "content-type": "application/json"
-        }),
-        body: JSON.stringify({
-          media_id: mediaId,
-          alt_text: {
-            text: media.altText.slice(0, 1000)
-          }
-        })
-      });
-    } catch (error) {
-      this.log.warn(
-        {
-          mediaId,
-          error: error instanceof Error ? error.message : String(error)
-        },
-        "Failed to attach Twitter media metadata; continuing"
-      );
-    }
-  }
-
-  private async waitForMediaProcessing(mediaId: string, processing: UploadProcessingInfo): Promise<void> {
-    let info: UploadProcessingInfo | undefined = processing;
-
-    for (let attempt = 0; attempt < MEDIA_STATUS_MAX_POLLS; attempt += 1) {
-      const state = info?.state;
-
-      if (!state || state === "succeeded") {
-        return;
-      }
-
-      if (state === "failed") {
-        const details = info?.error;
-        if (details?.message) {
-          throw new Error(details.message);
-        }
-
-        throw new Error(
-          `Twitter rejected media${
-            details?.code ? ` with code ${details.code}` : ""
-          }${details?.name ? ` (${details.name})` : ""}`
+    const priority = inheritParentPriority(
+      this.db,
+      this.target,
+      post,
+      classifyPostPriority({ isReply: Boolean(post.reply), posts })
+    );
+    const ahead = this.db.countDeferredPostsAhead(this.target, priority, post.sourceUri);
+    let attemptedPosts = posts;
+    let forecastAt = forecastBudgetSlot({ postTimes, limit, needed: ahead + posts });
+
+    const deadline = this.deadlineFor(post);
+    if (deadline !== undefined && forecastAt > deadline) {
+      if (this.config.stalePolicy === "drop") {
+        throw new PostDroppedError(
+          `Twitter budget frees up at ${new Date(forecastAt).toISOString()}, after the max-age deadline`
         );
       }
 
-      if (state !== "pending" && state !== "in_progress") {
-        throw new Error(`Unexpected Twitter media processing state: ${state}`);
-      }
-
-      const waitMs = Math.max(1, info?.check_after_secs ?? 1) * 1000;
-      await sleep(waitMs);
-
-      const statusResponse = await this.fetchJson<UploadResponse>(
-        `${this.uploadBaseUrl}/1.1/media/upload.json?${new URLSearchParams({
-          command: "STATUS",
-          media_id: mediaId
-        }).toString()}`,
-        {
-          method: "GET",
-          headers: this.buildHeaders({
-            "content-type": "application/x-www-form-urlencoded; charset=UTF-8"
-          })
-        }
-      );
-
-      info = statusResponse.processing_info;
+      attemptedPosts = 1;
+      forecastAt = forecastBudgetSlot({ postTimes, limit, needed: ahead + 1 });
     }
 
-    throw new Error("Timed out while waiting for Twitter media processing to finish");
-  }
-
-  private async uploadSingleMedia(media: MediaAsset): Promise<string> {
-    const initPayload = new URLSearchParams({
-      command: "INIT",
-      total_bytes: String(media.data.byteLength),
-      media_type: media.mimeType,
-      media_category: this.mediaCategory(media)
+    throw new TwitterDailyLimitError({
+      currentCount: postTimes.length,
+      attemptedPosts,
+      limit,
+      priority,
+      forecastAt: new Date(forecastAt)
     });
-
-    const initResponse = await this.fetchJson<UploadResponse>(`${this.uploadBaseUrl}/1.1/media/upload.json`, {
-      method: "POST",
-      headers: this.buildHeaders({
-        "content-type": "application/x-www-form-urlencoded; charset=UTF-8"
-      }),
-      body: initPayload.toString()
-    });
-
-    const mediaId = initResponse.media_id_string;
-    if (!mediaId) {
-      throw new Error("Twitter media INIT did not return media_id_string");
-    }
-
-    const totalSegments = Math.ceil(media.data.byteLength / MEDIA_CHUNK_SIZE);
-
-    for (let segmentIndex = 0; segmentIndex < totalSegments; segmentIndex += 1) {
-      const start = segmentIndex * MEDIA_CHUNK_SIZE;
-      const end = Math.min(start + MEDIA_CHUNK_SIZE, media.data.byteLength);
-      const chunk = media.data.subarray(start, end);
-
-      const form = new FormData();
-      form.set("command", "APPEND");
-      form.set("media_id", mediaId);
-      form.set("segment_index", String(segmentIndex));
-      form.set(
-        "media",
-        new Blob([Uint8Array.from(chunk)], { type: media.mimeType }),
-        media.filename ?? `media-${segmentIndex}`
-      );
-
-      await this.fetchOk(`${this.uploadBaseUrl}/1.1/media/upload.json`, {
-        method: "POST",
-        headers: this.buildHeaders(),
-        body: form
-      });
-    }
-
-    const finalizeResponse = await this.fetchJson<UploadResponse>(`${this.uploadBaseUrl}/1.1/media/upload.json`, {
-      method: "POST",
-      headers: this.buildHeaders({
-        "content-type": "application/x-www-form-urlencoded; charset=UTF-8"
-      }),
-      body: new URLSearchParams({
-        command: "FINALIZE",
-        media_id: mediaId
-      }).toString()
-    });
-
-    await this.setMediaMetadata(mediaId, media);
-
-    if (finalizeResponse.processing_info) {
-      await this.waitForMediaProcessing(mediaId, finalizeResponse.processing_info);
-    }
-
-    return mediaId;
   }
 
-  private async uploadMedia(post: CrossPost): Promise<string[]> {
-    if (!post.media || post.media.length === 0) {
-      return [];
+  /**
+   * The tweet a self-reply threads under. While the parent's own job is still queued (or held
+   * back by the budget) the reply is deferred until after the parent's forecast slot;
+   * otherwise a missing parent fails the attempt as before.
+   */
+  private replyParentId(post: CrossPost): string | undefined {
+    if (!post.reply) {
+      return undefined;
     }
 
-    const mediaIds: string[] = [];
-
-    for (const media of post.media.slice(0, MAX_MEDIA_ATTACHMENTS)) {
-      const mediaId = await this.uploadSingleMedia(media);
-      mediaIds.push(mediaId);
+    const parentReplyId = this.db.getPlatformRemoteId(post.reply.parentUri, this.target);
+    const rootReplyId = this.db.getPlatformRemoteId(post.reply.rootUri, this.target);
+    if (parentReplyId || rootReplyId) {
+      return parentReplyId ?? rootReplyId ?? undefined;
     }
 
-    return mediaIds;
-  }
-
-  private async createTweet(params: {
-    text: string;
-    mediaIds: string[];
-    replyToTweetId?: string;
-  }): Promise<string> {
-    const variables: Record<string, unknown> = {
-      tweet_text: params.text,
-      media: {
-        media_entities: params.mediaIds.map((mediaId) => ({
-          media_id: mediaId,
-          tagged_users: []
-        })),
-        possibly_sensitive: false
-      },
-      semantic_annotation_ids: [],
-      dark_request: false
-    };
-
-    if (params.replyToTweetId) {
-      variables.reply = {
-        in_reply_to_tweet_id: params.replyToTweetId,
-        exclude_reply_user_ids: []
-      };
-    }
-
-    const queryId = env.TWITTER_CREATE_TWEET_QUERY_ID;
-    const payload = await this.fetchJson<CreateTweetResponse>(
-      `${this.apiBaseUrl}/i/api/graphql/${queryId}/CreateTweet`,
-      {
-        method: "POST",
-        headers: this.buildHeaders({
-          "content-type": "application/json; charset=utf-8"
-        }),
-        body: JSON.stringify({
-          variables,
-          features: CREATE_TWEET_FEATURES,
-          queryId
-        })
-      }
-    );
-
-    const tweetId = extractTweetId(payload);
-    if (!tweetId) {
-      throw new Error("Twitter CreateTweet response missing tweet id");
+    const message =
+      `Reply thread dependency not ready on Twitter for ${post.sourceUri}; waiting for parent/root cross-post`;
+    if (this.db.getPlatformStatus(post.reply.parentUri, this.target) !== "queued") {
+      throw new Error(message);
     }
 
-    return tweetId;
+    const forecastAt = this.db.getDeferredForecast(this.target, post.reply.parentUri, "post");
+    throw new DependencyNotReadyError(message, {
+      retryAt: forecastAt ? new Date(Date.parse(forecastAt) + PARENT_SETTLE_MS) : undefined
+    });
   }
 
-  private async deleteTweet(tweetId: string): Promise<void> {
-    const queryId = env.TWITTER_DELETE_TWEET_QUERY_ID;
-
-    await this.fetchJson<Record<string, unknown>>(`${this.apiBaseUrl}/i/api/graphql/${queryId}/DeleteTweet`, {
-      method: "POST",
-      headers: this.buildHeaders({
-        "content-type": "application/json; charset=utf-8"
-      }),
-      body: JSON.stringify({
-        variables: {
-          tweet_id: tweetId,
-          dark_request: false
-        },
-        queryId
-      })
-    });
+  /** Tweets for the text chunks, extra media batches and, last, alt text cut to Twitter's limit. */
+  private layout(chunks: string[], prepared: PreparedMedia): ThreadEntry[] {
+    const altText = altTextOverflowText(prepared.altTextOverflow);
+    return layoutThread(chunks, prepared.batches, altText ? splitTweetText(altText) : []);
   }
 
+  /**
+   * A retried job resumes after the last tweet an earlier attempt published (see
+   * `ThreadCheckpoint`) and only needs budget for the rest. A resumed thread is always
+   * finished as a thread, whatever its age. Media beyond one tweet's worth goes to the next
+   * tweets; a collapsed post keeps only the first tweet's media.
+   */
   async post(post: CrossPost): Promise<PostResult> {
     const text = buildPostTextWithSelfQuote({
       post,
-      platform: this.name,
-      db: this.db
+      target: this.target,
+      db: this.db,
+      richText: { mention: createMentionRenderer(this.db, "twitter") },
+      linkCard: this.config.linkCard
     });
 
-    const chunks = splitIntoThread(text, {
-      maxLength: 280,
-      countLength: countByTwitterRules,
-      reserveForCounter: 8
-    });
+    const checkpoint = new ThreadCheckpoint({ db: this.db, target: this.target, sourceUri: post.sourceUri });
+    const resuming = checkpoint.publishedCount > 0;
+    let longPost = !resuming && fitsLongPost(text) && this.longPostsAllowed();
+    const prepared = await prepareMedia(post.media, MEDIA_CONSTRAINTS, this.log);
+    let entries = this.layout(longPost ? [text.trim()] : splitTweetText(text), prepared);
 
-    const day = toUtcDay();
-    const currentCount = this.db.getTwitterPostCount(day);
+    const deadline = this.deadlineFor(post);
+    if (!resuming && deadline !== undefined && Date.now() > deadline) {
+      if (this.config.stalePolicy === "drop") {
+        throw new PostDroppedError(`Post is older than the ${this.config.maxAgeMs}ms max age`);
+      }
 
-    if (currentCount + chunks.length > env.TWITTER_DAILY_LIMIT) {
-      throw new TwitterDailyLimitError({
-        day,
-        currentCount,
-        attemptedPosts: chunks.length,
-        limit: env.TWITTER_DAILY_LIMIT,
-        delayMs: msUntilNextUtcMidnight()
-      });
+      if (entries.length > 1) {
+        longPost = false;
+        entries = layoutThread([collapseToSingleTweet(text, post.sourceUri)], prepared.batches.slice(0, 1));
+      }
     }
 
-    const mediaIds = await this.uploadMedia(post);
-    const parentReplyId = post.reply
-      ? this.db.getPlatformRemoteId(post.reply.parentUri, this.name) ?? undefined
-      : undefined;
-    const rootReplyId = post.reply
-      ? this.db.getPlatformRemoteId(post.reply.rootUri, this.name) ?? undefined
-      : undefined;
+    // Checked before the budget, so a reply never takes a slot its parent still needs.
+    const inheritedReplyId = this.replyParentId(post);
+    this.assertBudget(post, entries.length - checkpoint.publishedCount);
 
-    if (post.reply && !parentReplyId && !rootReplyId) {
-      throw new Error(
-        `Reply thread dependency not ready on Twitter for ${post.sourceUri}; waiting for parent/root cross-post`
-      );
-    }
+    const pendingMedia = entries.slice(checkpoint.publishedCount).some((entry) => entry.media.length > 0);
+    let mediaIds = pendingMedia
+      ? mediaIdsPerEntry(await checkpoint.uploadMediaOnce(() => this.uploadMedia(post, entries)), entries)
+      : [];
+    const sensitive = sensitiveLabels(post).length > 0;
+
+    let replyToTweetId: string | undefined = checkpoint.lastRemoteId ?? inheritedReplyId;
+
+    if (longPost) {
+      try {
+        const tweetId = await this.backend.createTweet({
+          text: entries[0].text,
+          mediaIds: mediaIds[0] ?? [],
+          replyToTweetId,
+          longPost: true,
+          sensitive
+        });
+        this.db.recordTargetPosts(this.target, 1, BUDGET_WINDOW_MS);
+        checkpoint.recordChunk(tweetId);
+        replyToTweetId = tweetId;
+      } catch (error) {
+        if (!isLongPostUnsupportedError(error)) {
+          throw error;
+        }
 
-    const inheritedReplyId = parentReplyId ?? rootReplyId;
+        this.db.setSyncState(this.longPostStateKey, new Date().toISOString());
+        this.log.warn(
+          {
+            sourceUri: post.sourceUri,
+            error: error instanceof Error ? error.message : String(error)
+          },
+          "Twitter account cannot post long tweets; falling back to a thread"
+        );
 
-    let replyToTweetId: string | undefined = inheritedReplyId;
-    const threadIds: string[] = [];
+        // Same media batches in the same order, so the uploaded ids still line up.
+        entries = this.layout(splitTweetText(text), prepared);
+        mediaIds = mediaIdsPerEntry(mediaIds.flat(), entries);
+        this.assertBudget(post, entries.length);
+      }
+    }
 
-    for (let index = 0; index < chunks.length; index += 1) {
-      const tweetId = await this.createTweet({
-        text: chunks[index],
-        mediaIds: index === 0 ? mediaIds : [],
-        replyToTweetId
+    for (let index = checkpoint.publishedCount; index < entries.length; index += 1) {
+      const tweetId = await this.backend.createTweet({
+        text: entries[index].text,
+        mediaIds: mediaIds[index] ?? [],
+        replyToTweetId,
+        sensitive
       });
 
-      threadIds.push(tweetId);
       replyToTweetId = tweetId;
-      this.db.incrementTwitterPostCount(day, 1);
+      this.db.recordTargetPosts(this.target, 1, BUDGET_WINDOW_MS);
+      checkpoint.recordChunk(tweetId);
     }
 
+    const threadIds = checkpoint.publishedIds;
     return {
       id: threadIds[0],
       url: `https://x.com/i/web/status/${threadIds[0]}`,
@@ -645,21 +462,19 @@ export class TwitterAdapter implements PlatformAdapter {
     };
   }
 
-  async delete(sourceUri: string): Promise<void> {
-    const remoteIds = this.db.getPlatformRemoteIds(sourceUri, this.name);
+  async delete(sourceUri: string, remoteIds = this.db.getRemoteIdsForDeletion(sourceUri, this.target)): Promise<void> {
     if (remoteIds.length === 0) {
       return;
     }
 
     for (const remoteId of [...remoteIds].reverse()) {
       try {
-        await this.deleteTweet(remoteId);
+        await this.backend.deleteTweet(remoteId);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        const statusCode =
-          typeof error === "object" && error && "statusCode" in error
-            ? Number((error as { statusCode?: unknown }).statusCode)
-            : undefined;
+        // Web backend errors carry `statusCode`, twitter-api-v2 errors carry `code`.
+        const details = (typeof error === "object" && error ? error : {}) as { statusCode?: unknown; code?: unknown };
+        const statusCode = Number(details.statusCode ?? details.code);
 
         const isAlreadyDeleted =
           statusCode === 404 ||
@@ -675,7 +490,80 @@ export class TwitterAdapter implements PlatformAdapter {
     }
   }
 
+  async checkSession(): Promise<void> {
+    await this.backend.checkSession();
+  }
+
   async destroy(): Promise<void> {
     this.log.info("Twitter adapter stopped");
   }
 }
+
+function twitterApiCredentialsFromEnv(): TwitterApiCredentials | null {
+  const env = twitterEnv();
+  const oauth1 =
+    env.TWITTER_API_APP_KEY && env.TWITTER_API_APP_SECRET && env.TWITTER_API_ACCESS_TOKEN && env.TWITTER_API_ACCESS_SECRET
+      ? {
+          appKey: env.TWITTER_API_APP_KEY,
+          appSecret: env.TWITTER_API_APP_SECRET,
+          accessToken: env.TWITTER_API_ACCESS_TOKEN,
+          accessSecret: env.TWITTER_API_ACCESS_SECRET
+        }
+      : undefined;
+  const oauth2 =
+    env.TWITTER_API_OAUTH2_ACCESS_TOKEN || (env.TWITTER_API_OAUTH2_REFRESH_TOKEN && env.TWITTER_API_CLIENT_ID)
+      ? {
+          accessToken: env.TWITTER_API_OAUTH2_ACCESS_TOKEN,
+          refreshToken: env.TWITTER_API_OAUTH2_REFRESH_TOKEN,
+          clientId: env.TWITTER_API_CLIENT_ID,
+          clientSecret: env.TWITTER_API_CLIENT_SECRET
+        }
+      : undefined;
+
+  return oauth1 || oauth2 ? { oauth1, oauth2 } : null;
+}
+
+function twitterConfigFromEnv(): TwitterTargetConfig | null {
+  const env = twitterEnv();
+  const limits = {
+    dailyLimit: env.TWITTER_DAILY_LIMIT,
+    minPostIntervalMs: env.TWITTER_MIN_POST_INTERVAL_MS ?? defaultTwitterMinPostIntervalMs(env.TWITTER_DAILY_LIMIT),
+    longPosts: env.TWITTER_LONG_POSTS,
+    maxAgeMs: env.TWITTER_MAX_AGE_MS,
+    stalePolicy: env.TWITTER_STALE_POLICY,
+    linkCard: env.TWITTER_LINK_CARD
+  };
+
+  if (env.TWITTER_BACKEND === "api") {
+    const credentials = twitterApiCredentialsFromEnv();
+    return credentials ? { backend: "api", ...credentials, ...limits } : null;
+  }
+
+  return env.TWITTER_AUTH_TOKEN && env.TWITTER_CT0
+    ? {
+        backend: "web",
+        authToken: env.TWITTER_AUTH_TOKEN,
+        ct0: env.TWITTER_CT0,
+        cookie: env.TWITTER_WEB_COOKIE,
+        ...limits
+      }
+    : null;
+}
+
+export const twitterAdapterModule: AdapterModule<TwitterTargetConfig> = {
+  name: "twitter",
+  configSchema: twitterConfigSchema,
+  configFromEnv: twitterConfigFromEnv,
+  ...targetDefaultsFromEnv("TWITTER"),
+  rateLimits: (config) => ({
+    minPostIntervalMs: config.minPostIntervalMs,
+    dailyLimit: config.dailyLimit
+  }),
+  priority: (post, config) => {
+    const text = appendLinkCard(renderRichText(post.text, post.facets), post.external, config.linkCard);
+    const posts = config.longPosts && fitsLongPost(text) ? 1 : splitTweetText(text).length;
+    return classifyPostPriority({ isReply: Boolean(post.reply), posts });
+  },
+  quoteUrl: (remoteId) => `https://x.com/i/web/status/${remoteId}`,
+  create: (db, target) => new TwitterAdapter(db, target)
+};
@@ -0,0 +1,212 @@
+import { parseArgs } from "node:util";
+import { env } from "./config/env.js";
+import { logger } from "./config/logger.js";
+import { loadSourceAccounts, type SourceAccountConfig } from "./config/accounts.js";
+import { AppDatabase } from "./core/db.js";
+import { QueueManager, assertRedisReachable } from "./core/queue.js";
+import { MediaStore } from "./core/media-store.js";
+import { BlueskyPoller } from "./core/poller.js";
+import { normalizeFeedPost } from "./core/post-normalizer.js";
+import { routingExclusion } from "./core/targets.js";
+import { BlueskySourceAdapter } from "./adapters/bluesky.js";
+import { loadAdapterModules } from "./adapters/registry.js";
+import { registerBuiltInAdapters } from "./adapters/builtin.js";
+
+const USAGE = `Usage: backfill (--since <date> | --until-uri <at-uri>) [--account <id>] [--dry-run] [--max-pages <n>]
+
+Pages back through your Bluesky author feed and queues posts that were never syndicated.
+
+  --account <id>       Source account to backfill (required when ACCOUNTS_FILE lists several)
+  --since <date>       Stop at posts created before this date (ISO 8601)
+  --until-uri <uri>    Stop after reaching this post (inclusive)
+  --dry-run            Print what would be queued per platform without queueing anything
+  --max-pages <n>      Safety cap on feed pages of 100 items (default 500)`;
+
+interface BackfillOptions {
+  account: SourceAccountConfig;
+  since?: Date;
+  untilUri?: string;
+  dryRun: boolean;
+  maxPages: number;
+}
+
+function parseOptions(sourceAccounts: SourceAccountConfig[]): BackfillOptions {
+  const { values } = parseArgs({
+    options: {
+      account: { type: "string" },
+      since: { type: "string" },
+      "until-uri": { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      "max-pages": { type: "string" },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const account = values.account
+    ? sourceAccounts.find((candidate) => candidate.id === values.account)
+    : sourceAccounts.length === 1
+      ? sourceAccounts[0]
+      : undefined;
+  if (!account) {
+    throw new Error(
+      values.account
+        ? `Unknown --account: ${values.account}`
+        : `--account is required; configured accounts: ${sourceAccounts.map((item) => item.id).join(", ")}`
+    );
+  }
+
+  const since = values.since ? new Date(values.since) : undefined;
+  if (since && Number.isNaN(since.getTime())) {
+    throw new Error(`Invalid --since date: ${values.since}`);
+  }
+
+  const untilUri = values["until-uri"];
+  if (!since && !untilUri) {
+    throw new Error(`Either --since or --until-uri is required\n\n${USAGE}`);
+  }
+
+  const maxPages = values["max-pages"] ? Number(values["max-pages"]) : 500;
+  if (!Number.isInteger(maxPages) || maxPages < 1) {
+    throw new Error(`Invalid --max-pages value: ${values["max-pages"]}`);
+  }
+
+  return {
+    account,
+    since,
+    untilUri,
+    dryRun: Boolean(values["dry-run"]),
+    maxPages
+  };
+}
+
+function postCreatedAt(feedItem: any): number {
+  const value = feedItem?.post?.record?.createdAt ?? feedItem?.post?.indexedAt;
+  const parsed = typeof value === "string" ? Date.parse(value) : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : Date.now();
+}
+
+/**
+ * Collects unseen syndicatable posts, newest-first as the feed returns them. Reposts are
+ * skipped when deciding where to stop because their position reflects the repost time.
+ */
+async function collectUnseenPosts(
+  source: BlueskySourceAdapter,
+  db: AppDatabase,
+  options: BackfillOptions
+): Promise<any[]> {
+  const log = logger.child({ module: "backfill" });
+  const collected: any[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < options.maxPages; page += 1) {
+    const { rawItems, items, cursor: nextCursor } = await source.fetchOwnPostsPage({ cursor });
+    const syndicatable = new Set(items);
+    let reachedEnd = false;
+
+    for (const item of rawItems) {
+      if (item?.reason || item?.post?.author?.did !== source.did) {
+        continue;
+      }
+
+      if (options.since && postCreatedAt(item) < options.since.getTime()) {
+        reachedEnd = true;
+        break;
+      }
+
+      if (syndicatable.has(item) && !db.hasSeenSourcePost(item.post.uri)) {
+        collected.push(item);
+      }
+
+      if (options.untilUri && item.post.uri === options.untilUri) {
+        reachedEnd = true;
+        break;
+      }
+    }
+
+    log.info({ page: page + 1, collected: collected.length }, "Scanned author feed page");
+
+    cursor = nextCursor;
+    if (reachedEnd || !cursor || rawItems.length === 0) {
+      return collected;
+    }
+  }
+
+  log.warn({ maxPages: options.maxPages }, "Stopped backfill at --max-pages before reaching the target");
+  return collected;
+}
+
+async function backfill(): Promise<void> {
+  registerBuiltInAdapters();
+  await loadAdapterModules(env.adapterModules);
+  const options = parseOptions(loadSourceAccounts());
+  const { account } = options;
+  const log = logger.child({ module: "backfill", account: account.id });
+  const { targets } = account;
+
+  if (targets.length === 0) {
+    throw new Error(`No target platforms configured for account "${account.id}". Check environment configuration.`);
+  }
+
+  const rootDb = new AppDatabase(env.DB_PATH);
+  const db = rootDb.forAccount(account.id);
+  const source = new BlueskySourceAdapter(account.bluesky);
+  await source.init();
+
+  try {
+    const pending = (await collectUnseenPosts(source, db, options)).reverse();
+
+    if (options.dryRun) {
+      // The same routing check the workers apply, so the listing matches what gets published.
+      const posts = pending.flatMap((item) => {
+        const post = normalizeFeedPost({ feedItem: item });
+        return post ? [{ item, post }] : [];
+      });
+      for (const target of targets) {
+        const routed = posts.filter(({ post }) => !routingExclusion(post, target));
+        const skipped = posts.length - routed.length;
+        console.log(
+          `\n${target.key}: ${routed.length} post(s) would be queued${skipped > 0 ? `, ${skipped} skipped by routing` : ""}`
+        );
+        for (const { item } of routed) {
+          const text = String(item.post.record?.text ?? "").replace(/\s+/g, " ").slice(0, 80);
+          console.log(`  ${new Date(postCreatedAt(item)).toISOString()}  ${item.post.uri}  ${text}`);
+        }
+      }
+      return;
+    }
+
+    await assertRedisReachable(env.REDIS_URL);
+    const queueManager = new QueueManager({
+      targets,
+      db,
+      mediaStore: new MediaStore({ db }),
+      redisUrl: env.REDIS_URL,
+      accountId: account.id
+    });
+    try {
+      const poller = new BlueskyPoller({ source, db, queueManager, targets });
+      await poller.ingestFeedItems(pending, { withGracePeriod: false });
+    } finally {
+      await queueManager.close();
+    }
+
+    log.info({ queued: pending.length, targets: targets.map((target) => target.key) }, "Backfill complete");
+  } finally {
+    rootDb.close();
+  }
+}
+
+backfill().catch((error) => {
+  logger.fatal(
+    {
+      error: error instanceof Error ? error.message : String(error)
+    },
+    "Backfill failed"
+  );
+  process.exit(1);
+});
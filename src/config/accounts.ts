@@ -0,0 +1,194 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { env } from "./env.js";
+import { toTargetKey } from "../core/targets.js";
+import type { PlatformName, TargetKey } from "../core/types.js";
+import { getAdapterModule, listAdapterModules, type AdapterModule } from "../adapters/registry.js";
+
+export const DEFAULT_ACCOUNT_ID = "default";
+
+export interface BlueskyAccountConfig {
+  service: string;
+  identifier: string;
+  password: string;
+}
+
+/**
+ * One configured instance of a target platform. `name` is unset for the single unnamed
+ * instance; `config` is whatever the platform's adapter module validated.
+ */
+export interface TargetInstance<TConfig = unknown> {
+  key: TargetKey;
+  platform: PlatformName;
+  name?: string;
+  postDelayMs: number;
+  /** Posts carrying any of these Bluesky self-labels are not syndicated to this target. */
+  skipLabels: string[];
+  /** Only posts in one of these languages are syndicated to this target; empty means all. */
+  languages: string[];
+  minPostIntervalMs?: number;
+  dailyLimit?: number;
+  config: TConfig;
+}
+
+/**
+ * One Bluesky identity and the targets it syndicates to. Each account gets its own poller,
+ * queues, adapters and database namespace. A platform may list several named instances.
+ */
+export interface SourceAccountConfig {
+  id: string;
+  bluesky: BlueskyAccountConfig;
+  targets: TargetInstance[];
+}
+
+const instanceSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[a-z0-9_-]+$/i, "target name may only contain letters, digits, '-' and '_'")
+      .optional(),
+    postDelayMs: z.number().int().nonnegative().optional(),
+    skipLabels: z.array(z.string().min(1)).optional(),
+    languages: z.array(z.string().min(1)).optional()
+  })
+  .passthrough();
+
+const accountsFileSchema = z.object({
+  accounts: z
+    .array(
+      z
+        .object({
+          id: z
+            .string()
+            .regex(/^[a-z0-9_-]+$/i, "account id may only contain letters, digits, '-' and '_'"),
+          bluesky: z.object({
+            service: z.string().url().default(env.BLUESKY_SERVICE),
+            identifier: z.string().min(1),
+            password: z.string().min(1)
+          })
+        })
+        // Every other key names a registered target platform.
+        .catchall(z.union([instanceSchema, z.array(instanceSchema)]))
+    )
+    .min(1)
+});
+
+function defaultPostDelayMs(module: AdapterModule): number {
+  return module.defaultPostDelayMs ?? env.SYNDICATION_DELAY_MS;
+}
+
+function toTargetInstance(
+  module: AdapterModule,
+  config: unknown,
+  options: { name?: string; postDelayMs?: number; skipLabels?: string[]; languages?: string[] } = {}
+): TargetInstance {
+  const rateLimits = module.rateLimits?.(config) ?? {};
+  return {
+    key: toTargetKey(module.name, options.name),
+    platform: module.name,
+    name: options.name,
+    postDelayMs: options.postDelayMs ?? defaultPostDelayMs(module),
+    skipLabels: options.skipLabels ?? module.defaultSkipLabels ?? [],
+    languages: options.languages ?? module.defaultLanguages ?? [],
+    minPostIntervalMs: rateLimits.minPostIntervalMs,
+    dailyLimit: rateLimits.dailyLimit,
+    config
+  };
+}
+
+function formatIssues(issues: z.ZodIssue[], prefix: Array<string | number> = []): string {
+  return issues.map((issue) => `${[...prefix, ...issue.path].join(".")}: ${issue.message}`).join("\n");
+}
+
+function loadAccountsFile(filePath: string): SourceAccountConfig[] {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(resolved, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read ACCOUNTS_FILE ${resolved}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const parsed = accountsFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid ACCOUNTS_FILE ${resolved}:\n${formatIssues(parsed.error.issues)}`);
+  }
+
+  const ids = new Set<string>();
+  return parsed.data.accounts.map((account, accountIndex) => {
+    const { id, bluesky, ...platforms } = account;
+    if (ids.has(id)) {
+      throw new Error(`Duplicate account id in ACCOUNTS_FILE: ${id}`);
+    }
+    ids.add(id);
+
+    const targets: TargetInstance[] = [];
+    for (const [platform, entry] of Object.entries(platforms)) {
+      const module = getAdapterModule(platform);
+      if (!module) {
+        throw new Error(
+          `Account ${id} configures unknown target platform "${platform}"; registered platforms: ${listAdapterModules()
+            .map((item) => item.name)
+            .join(", ")}`
+        );
+      }
+
+      const entries = Array.isArray(entry) ? entry : [entry];
+      entries.forEach((instance, instanceIndex) => {
+        const config = module.configSchema.safeParse(instance);
+        if (!config.success) {
+          const prefix = ["accounts", accountIndex, platform, ...(Array.isArray(entry) ? [instanceIndex] : [])];
+          throw new Error(`Invalid ACCOUNTS_FILE ${resolved}:\n${formatIssues(config.error.issues, prefix)}`);
+        }
+
+        const target = toTargetInstance(module, config.data, {
+          name: instance.name,
+          postDelayMs: instance.postDelayMs,
+          skipLabels: instance.skipLabels,
+          languages: instance.languages
+        });
+        if (targets.some((existing) => existing.key === target.key)) {
+          throw new Error(
+            `Account ${id} lists ${platform} target "${target.key}" more than once; give each instance a unique name`
+          );
+        }
+        targets.push(target);
+      });
+    }
+
+    return { id, bluesky, targets };
+  });
+}
+
+/**
+ * The single-account setup driven by the classic BLUESKY_* variables plus whatever each
+ * registered adapter reads from the environment. A target is only present when configured.
+ */
+function accountFromEnv(): SourceAccountConfig {
+  const targets: TargetInstance[] = [];
+  for (const module of listAdapterModules()) {
+    const config = module.configFromEnv?.();
+    if (config) {
+      targets.push(toTargetInstance(module, config));
+    }
+  }
+
+  return {
+    id: DEFAULT_ACCOUNT_ID,
+    bluesky: {
+      service: env.BLUESKY_SERVICE,
+      identifier: env.BLUESKY_IDENTIFIER ?? "",
+      password: env.BLUESKY_PASSWORD ?? ""
+    },
+    targets
+  };
+}
+
+/** Adapter modules must be registered first; their schemas validate the target entries. */
+export function loadSourceAccounts(): SourceAccountConfig[] {
+  return env.ACCOUNTS_FILE ? loadAccountsFile(env.ACCOUNTS_FILE) : [accountFromEnv()];
+}
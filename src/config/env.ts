@@ -4,23 +4,65 @@ import { z } from "zod";
 
 loadDotEnv();
 
-const optionalUrl = z.preprocess(
+export const optionalUrl = z.preprocess(
   (value) => (typeof value === "string" && value.trim() === "" ? undefined : value),
   z.string().url().optional()
 );
-const optionalString = z.preprocess(
+export const optionalString = z.preprocess(
   (value) => (typeof value === "string" && value.trim() === "" ? undefined : value),
   z.string().optional()
 );
 
-function parseCookieValue(cookie: string | undefined, key: string): string | undefined {
-  if (!cookie) {
-    return undefined;
+export const booleanFlag = z.preprocess(
+  (value) =>
+    typeof value === "string" ? ["1", "true", "yes", "on"].includes(value.trim().toLowerCase()) : value,
+  z.boolean().default(false)
+);
+
+export function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** Parses `label=text` pairs such as `porn=NSFW,graphic-media=Gore`. */
+function parseLabelWarnings(value: string): Record<string, string> {
+  const warnings: Record<string, string> = {};
+  for (const pair of parseList(value)) {
+    const separator = pair.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`Invalid environment variables:\nLABEL_WARNINGS: expected label=text, got "${pair}"`);
+    }
+
+    warnings[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
   }
 
-  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  const match = cookie.match(new RegExp(`(?:^|;\\s*)${escaped}=([^;]+)`));
-  return match?.[1];
+  return warnings;
+}
+
+function invalidEnvironment(issues: z.core.$ZodIssue[], prefix = ""): Error {
+  const details = issues.map((issue) => `${prefix}${issue.path.join(".")}: ${issue.message}`).join("\n");
+  return new Error(`Invalid environment variables:\n${details}`);
+}
+
+/**
+ * Validates variables a module owns, such as an adapter's, on first use, so core never has
+ * to declare them. Returns a getter for the parsed values.
+ */
+export function defineEnv<T extends z.ZodType>(schema: T): () => z.output<T> {
+  let parsed: z.output<T> | undefined;
+  return () => {
+    if (parsed === undefined) {
+      const result = schema.safeParse(process.env);
+      if (!result.success) {
+        throw invalidEnvironment(result.error.issues);
+      }
+      parsed = result.data;
+    }
+
+    return parsed;
+  };
 }
 
 const envSchema = z.object({
@@ -28,88 +70,109 @@ const envSchema = z.object({
   LOG_LEVEL: z.enum(["trace", "debug", "info", "warn", "error", "fatal"]).default("info"),
 
   BLUESKY_SERVICE: z.string().url().default("https://bsky.social"),
-  BLUESKY_IDENTIFIER: z.string().min(1, "BLUESKY_IDENTIFIER is required"),
-  BLUESKY_PASSWORD: z.string().min(1, "BLUESKY_PASSWORD is required"),
+  BLUESKY_IDENTIFIER: optionalString,
+  BLUESKY_PASSWORD: optionalString,
   BLUESKY_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(15000),
   BLUESKY_FEED_LIMIT: z.coerce.number().int().min(1).max(100).default(50),
   BLUESKY_DELETE_SYNC_INTERVAL_MS: z.coerce.number().int().positive().default(60000),
-  BLUESKY_DELETE_SYNC_MAX_PAGES: z.coerce.number().int().min(1).max(1000).default(100),
-
-  MASTODON_INSTANCE: optionalUrl,
-  MASTODON_ACCESS_TOKEN: z.string().optional(),
-
-  NOSTR_PRIVATE_KEY: z.string().optional(),
-  NOSTR_RELAYS: z.string().default("wss://relay.damus.io,wss://nos.lol,wss://relay.nostr.band"),
-  NOSTR_MEDIA_HOST: z.string().url().default("https://nostr.build"),
-
-  TWITTER_AUTH_TOKEN: optionalString,
-  TWITTER_CT0: optionalString,
-  TWITTER_WEB_COOKIE_EXTRA: optionalString,
-  TWITTER_WEB_COOKIE: optionalString,
-  TWITTER_WEB_CSRF_TOKEN: optionalString,
-  TWITTER_WEB_BEARER_TOKEN: z
-    .string()
-    .default(
-      "Bearer AAAAAAAAAAAAAAAAAAAAANRILgAAAAAAnNwIzUejRCOuH5E6I8xnZz4puTs%3D1Zv7ttfk8LF81IUq16cHjhLTvJu4FA33AGWWjCpTnA"
-    ),
-  TWITTER_WEB_BASE_URL: z.string().url().default("https://twitter.com"),
-  TWITTER_UPLOAD_BASE_URL: z.string().url().default("https://upload.twitter.com"),
-  TWITTER_WEB_CLIENT_LANGUAGE: z.string().default("en"),
-  TWITTER_CREATE_TWEET_QUERY_ID: z.string().default("I_J3_LvnnihD0Gjbq5pD2g"),
-  TWITTER_DELETE_TWEET_QUERY_ID: z.string().default("VaenaVgh5q5ih7kvyVjgtg"),
-  TWITTER_DAILY_LIMIT: z.coerce.number().int().positive().default(17),
-  TWITTER_MIN_POST_INTERVAL_MS: z.coerce.number().int().positive().optional(),
+  BLUESKY_DELETE_SYNC_BATCH_SIZE: z.coerce.number().int().min(1).max(1000).default(100),
+  BLUESKY_DELETE_SYNC_RECENT_HOURS: z.coerce.number().min(0).default(48),
+  BLUESKY_DELETE_SYNC_MAX_DELETIONS: z.coerce.number().int().min(1).default(10),
+  BLUESKY_DELETE_SYNC_MAX_PERCENT: z.coerce.number().min(0).max(100).default(20),
+  BLUESKY_SOURCE_MODE: z.enum(["poll", "jetstream"]).default("poll"),
+  BLUESKY_JETSTREAM_URL: z.string().url().default("wss://jetstream2.us-east.bsky.network/subscribe"),
+  BLUESKY_JETSTREAM_RECONNECT_MS: z.coerce.number().int().positive().default(5000),
+
+  SYNDICATION_DELAY_MS: z.coerce.number().int().min(0).default(0),
+
+  LABEL_WARNINGS: z.string().default(""),
+  MENTION_DISCOVERY: booleanFlag,
+  MENTION_DISCOVERY_TTL_MS: z.coerce.number().int().positive().default(7 * 24 * 60 * 60 * 1000),
+  MENTION_FALLBACK: z.enum(["keep", "url", "handle-url"]).default("keep"),
+  ALT_TEXT_OVERFLOW: z.enum(["reply", "truncate"]).default("reply"),
+
+  EDIT_FALLBACK_POLICY: z.enum(["ignore", "repost"]).default("ignore"),
+
+  CATCHUP_ENABLED: booleanFlag,
+  CATCHUP_LOOKBACK_DAYS: z.coerce.number().int().positive().default(30),
+  CATCHUP_INTERVAL_MS: z.coerce.number().int().positive().default(60 * 60 * 1000),
+  CATCHUP_BATCH_SIZE: z.coerce.number().int().min(1).max(500).default(25),
+
+  SESSION_CHECK_INTERVAL_MS: z.coerce.number().int().positive().default(15 * 60 * 1000),
+
+  ALERT_WEBHOOK_URL: optionalUrl,
+  ACCOUNTS_FILE: optionalString,
+  ADAPTER_MODULES: z.string().default(""),
 
   REDIS_URL: z.string().default("redis://127.0.0.1:6379"),
-  DB_PATH: z.string().default("./data/syndicator.db")
+  DB_PATH: z.string().default("./data/syndicator.db"),
+  MEDIA_DIR: z.string().default("./data/media"),
+  MEDIA_GC_INTERVAL_MS: z.coerce.number().int().positive().default(60 * 60 * 1000),
+  MEDIA_REF_TTL_MS: z.coerce.number().int().positive().default(14 * 24 * 60 * 60 * 1000)
+}).superRefine((value, ctx) => {
+  if (value.ACCOUNTS_FILE) {
+    return;
+  }
+
+  for (const key of ["BLUESKY_IDENTIFIER", "BLUESKY_PASSWORD"] as const) {
+    if (!value[key]) {
+      ctx.addIssue({
+        code: "custom",
+        path: [key],
+        message: `${key} is required unless ACCOUNTS_FILE is set`
+      });
+    }
+  }
 });
 
 const parsed = envSchema.safeParse(process.env);
 
 if (!parsed.success) {
-  const details = parsed.error.issues
-    .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
-    .join("\n");
-  throw new Error(`Invalid environment variables:\n${details}`);
+  throw invalidEnvironment(parsed.error.issues);
 }
 
 const dbPath = parsed.data.DB_PATH;
-const twitterAuthToken =
-  parsed.data.TWITTER_AUTH_TOKEN ?? parseCookieValue(parsed.data.TWITTER_WEB_COOKIE, "auth_token");
-const twitterCt0 =
-  parsed.data.TWITTER_CT0 ??
-  parsed.data.TWITTER_WEB_CSRF_TOKEN ??
-  parseCookieValue(parsed.data.TWITTER_WEB_COOKIE, "ct0");
-const twitterCookieExtra = parsed.data.TWITTER_WEB_COOKIE_EXTRA
-  ? parsed.data.TWITTER_WEB_COOKIE_EXTRA.trim().replace(/^;\s*/, "").replace(/;\s*$/, "")
-  : undefined;
-const twitterWebCookie =
-  parsed.data.TWITTER_WEB_COOKIE ??
-  [twitterAuthToken ? `auth_token=${twitterAuthToken}` : undefined, twitterCt0 ? `ct0=${twitterCt0}` : undefined, twitterCookieExtra]
-    .filter((item): item is string => Boolean(item))
-    .join("; ");
-const twitterMinPostIntervalMs =
-  parsed.data.TWITTER_MIN_POST_INTERVAL_MS ??
-  Math.ceil((24 * 60 * 60 * 1000) / parsed.data.TWITTER_DAILY_LIMIT);
-
+const mediaDir = parsed.data.MEDIA_DIR;
 export const env = {
   ...parsed.data,
-  TWITTER_AUTH_TOKEN: twitterAuthToken,
-  TWITTER_CT0: twitterCt0,
-  TWITTER_WEB_COOKIE_EXTRA: twitterCookieExtra,
-  TWITTER_WEB_COOKIE: twitterWebCookie || undefined,
-  TWITTER_WEB_CSRF_TOKEN: twitterCt0,
-  TWITTER_MIN_POST_INTERVAL_MS: twitterMinPostIntervalMs,
   DB_PATH: path.isAbsolute(dbPath) ? dbPath : path.resolve(process.cwd(), dbPath),
-  nostrRelays: parsed.data.NOSTR_RELAYS.split(",")
-    .map((relay) => relay.trim())
-    .filter(Boolean)
-};
-
-export const platformConfig = {
-  mastodonEnabled: Boolean(env.MASTODON_INSTANCE && env.MASTODON_ACCESS_TOKEN),
-  nostrEnabled: Boolean(env.NOSTR_PRIVATE_KEY && env.nostrRelays.length > 0),
-  twitterEnabled: Boolean(env.TWITTER_AUTH_TOKEN && env.TWITTER_CT0)
+  MEDIA_DIR: path.isAbsolute(mediaDir) ? mediaDir : path.resolve(process.cwd(), mediaDir),
+  labelWarnings: parseLabelWarnings(parsed.data.LABEL_WARNINGS),
+  adapterModules: parseList(parsed.data.ADAPTER_MODULES)
 };
 
 export type Env = typeof env;
+
+const targetDefaultsSchema = z.object({
+  POST_DELAY_MS: z.coerce.number().int().min(0).optional(),
+  SKIP_LABELS: z.string().default(""),
+  LANGUAGES: z.string().default("")
+});
+
+export interface TargetEnvDefaults {
+  defaultPostDelayMs?: number;
+  defaultSkipLabels: string[];
+  defaultLanguages: string[];
+}
+
+/**
+ * Reads `<PREFIX>_POST_DELAY_MS`, `<PREFIX>_SKIP_LABELS` and `<PREFIX>_LANGUAGES` for an
+ * adapter module's definition, so each platform (built-in or not) owns its variables.
+ */
+export function targetDefaultsFromEnv(prefix: string): TargetEnvDefaults {
+  const result = targetDefaultsSchema.safeParse({
+    POST_DELAY_MS: process.env[`${prefix}_POST_DELAY_MS`],
+    SKIP_LABELS: process.env[`${prefix}_SKIP_LABELS`],
+    LANGUAGES: process.env[`${prefix}_LANGUAGES`]
+  });
+
+  if (!result.success) {
+    throw invalidEnvironment(result.error.issues, `${prefix}_`);
+  }
+
+  return {
+    defaultPostDelayMs: result.data.POST_DELAY_MS,
+    defaultSkipLabels: parseList(result.data.SKIP_LABELS),
+    defaultLanguages: parseList(result.data.LANGUAGES)
+  };
+}
@@ -0,0 +1,41 @@
+import { env } from "../config/env.js";
+import { logger } from "../config/logger.js";
+
+const log = logger.child({ module: "core/alerts" });
+
+/**
+ * Raises an operator-facing alert. Alerts are always logged at error level and, when
+ * `ALERT_WEBHOOK_URL` is set, also POSTed as JSON (`{ text, details }`). Webhook failures are
+ * logged and swallowed so alerting never breaks the caller.
+ */
+export async function sendAlert(message: string, details: Record<string, unknown> = {}): Promise<void> {
+  log.error({ alert: true, ...details }, message);
+
+  if (!env.ALERT_WEBHOOK_URL) {
+    return;
+  }
+
+  try {
+    const response = await fetch(env.ALERT_WEBHOOK_URL, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json"
+      },
+      body: JSON.stringify({
+        text: `[bsky-syndicator] ${message}`,
+        details
+      })
+    });
+
+    if (!response.ok) {
+      log.warn({ status: response.status }, "Alert webhook rejected the alert");
+    }
+  } catch (error) {
+    log.warn(
+      {
+        error: error instanceof Error ? error.message : String(error)
+      },
+      "Failed to deliver alert webhook"
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import type { AppDatabase } from "./db.js";
+import type { CrossPost, TargetKey } from "./types.js";
+
+/**
+ * Rolling write budgets for targets with a `dailyLimit`: at most `limit` posts in any
+ * 24-hour window, instead of a counter that resets at UTC midnight.
+ */
+export const BUDGET_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * BullMQ priorities (1 is highest) for post jobs on budgeted targets, so that when the
+ * budget is short, top-level posts go out before self-replies and long threads.
+ */
+export const POST_PRIORITY = {
+  topLevel: 1,
+  selfReply: 2,
+  longThread: 3
+} as const;
+
+export type PostPriority = (typeof POST_PRIORITY)[keyof typeof POST_PRIORITY];
+
+/** Threads needing at least this many posts are classed as long threads. */
+export const LONG_THREAD_MIN_POSTS = 3;
+
+export function classifyPostPriority(params: { isReply: boolean; posts: number }): PostPriority {
+  if (params.posts >= LONG_THREAD_MIN_POSTS) {
+    return POST_PRIORITY.longThread;
+  }
+
+  return params.isReply ? POST_PRIORITY.selfReply : POST_PRIORITY.topLevel;
+}
+
+/**
+ * A self-reply cannot go out before its parent, so while the parent is unpublished on the
+ * target the reply never ranks above it: it takes the parent's priority when that is lower
+ * (down a chain of replies, the root's).
+ */
+export function inheritParentPriority(db: AppDatabase, target: TargetKey, post: CrossPost, priority: number): number {
+  if (!post.reply || db.getPlatformRemoteId(post.reply.parentUri, target)) {
+    return priority;
+  }
+
+  return Math.max(priority, db.getPostPriority(post.reply.parentUri, target) ?? priority);
+}
+
+export function budgetWindowStart(now = Date.now()): string {
+  return new Date(now - BUDGET_WINDOW_MS).toISOString();
+}
+
+/**
+ * When `needed` more posts will have gone out, given the window's write times (oldest
+ * first). Each post is placed at the earliest moment the window has room, so jobs queued
+ * ahead of this one should be included in `needed`.
+ */
+export function forecastBudgetSlot(params: {
+  postTimes: number[];
+  limit: number;
+  needed: number;
+  now?: number;
+  windowMs?: number;
+}): number {
+  const windowMs = params.windowMs ?? BUDGET_WINDOW_MS;
+  const times = [...params.postTimes];
+  let slot = params.now ?? Date.now();
+
+  for (let index = 0; index < params.needed; index += 1) {
+    const inWindow = times.filter((time) => time > slot - windowMs);
+    if (inWindow.length >= params.limit) {
+      slot = inWindow[inWindow.length - params.limit] + windowMs;
+    }
+    times.push(slot);
+  }
+
+  return slot;
+}
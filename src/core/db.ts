@@ -1,17 +1,177 @@
 import fs from "node:fs";
 import path from "node:path";
 import Database from "better-sqlite3";
-import type { PlatformName } from "./types.js";
+import { DEFAULT_ACCOUNT_ID } from "../config/accounts.js";
+import type { MentionMapping, TargetKey } from "./types.js";
 
 interface PlatformResultRow {
   remote_id: string | null;
   remote_ids_json: string | null;
 }
 
+interface MentionMappingRow {
+  did: string;
+  handle: string | null;
+  mastodon: string | null;
+  twitter: string | null;
+  nostr: string | null;
+  source: MentionMapping["source"];
+  checked_at: string | null;
+}
+
+function toMentionMapping(row: MentionMappingRow): MentionMapping {
+  return {
+    did: row.did,
+    handle: row.handle ?? undefined,
+    mastodon: row.mastodon ?? undefined,
+    twitter: row.twitter ?? undefined,
+    nostr: row.nostr ?? undefined,
+    source: row.source,
+    checkedAt: row.checked_at ?? undefined
+  };
+}
+
+/**
+ * Tables whose rows belong to one source account. Keys include `account_id` so several
+ * Bluesky identities can share one database without their rows crossing. `keyColumns`
+ * lists key columns added after the table was first released, which older databases lack.
+ */
+const ACCOUNT_SCOPED_TABLES: Record<string, { keyColumns: string[]; sql: string }> = {
+  source_posts: {
+    keyColumns: ["account_id"],
+    sql: `
+    CREATE TABLE IF NOT EXISTS source_posts (
+      account_id TEXT NOT NULL DEFAULT '${DEFAULT_ACCOUNT_ID}',
+      uri TEXT NOT NULL,
+      cid TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      detected_at TEXT NOT NULL,
+      deleted_at TEXT,
+      last_checked_at TEXT,
+      PRIMARY KEY (account_id, uri)
+    );
+  `
+  },
+  platform_results: {
+    keyColumns: ["account_id"],
+    sql: `
+    CREATE TABLE IF NOT EXISTS platform_results (
+      account_id TEXT NOT NULL DEFAULT '${DEFAULT_ACCOUNT_ID}',
+      uri TEXT NOT NULL,
+      platform TEXT NOT NULL,
+      status TEXT NOT NULL,
+      remote_id TEXT,
+      remote_ids_json TEXT,
+      remote_url TEXT,
+      error TEXT,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (account_id, uri, platform)
+    );
+  `
+  },
+  // Per-UTC-day counters from before the rolling window; only read to seed `target_post_log`.
+  twitter_budget: {
+    keyColumns: ["account_id", "target"],
+    sql: `
+    CREATE TABLE IF NOT EXISTS twitter_budget (
+      account_id TEXT NOT NULL DEFAULT '${DEFAULT_ACCOUNT_ID}',
+      target TEXT NOT NULL DEFAULT 'twitter',
+      day TEXT NOT NULL,
+      count INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (account_id, target, day)
+    );
+  `
+  },
+  target_post_log: {
+    keyColumns: ["account_id", "target"],
+    sql: `
+    CREATE TABLE IF NOT EXISTS target_post_log (
+      account_id TEXT NOT NULL DEFAULT '${DEFAULT_ACCOUNT_ID}',
+      target TEXT NOT NULL,
+      posted_at TEXT NOT NULL,
+      count INTEGER NOT NULL DEFAULT 1
+    );
+    CREATE INDEX IF NOT EXISTS target_post_log_window ON target_post_log (account_id, target, posted_at);
+  `
+  },
+  deferred_jobs: {
+    keyColumns: ["account_id", "target"],
+    sql: `
+    CREATE TABLE IF NOT EXISTS deferred_jobs (
+      account_id TEXT NOT NULL DEFAULT '${DEFAULT_ACCOUNT_ID}',
+      target TEXT NOT NULL,
+      uri TEXT NOT NULL,
+      action TEXT NOT NULL,
+      priority INTEGER NOT NULL,
+      posts INTEGER NOT NULL,
+      reason TEXT NOT NULL,
+      deferred_at TEXT NOT NULL,
+      forecast_at TEXT NOT NULL,
+      PRIMARY KEY (account_id, target, uri, action)
+    );
+  `
+  },
+  thread_progress: {
+    keyColumns: ["account_id", "target"],
+    sql: `
+    CREATE TABLE IF NOT EXISTS thread_progress (
+      account_id TEXT NOT NULL DEFAULT '${DEFAULT_ACCOUNT_ID}',
+      target TEXT NOT NULL,
+      uri TEXT NOT NULL,
+      remote_ids_json TEXT NOT NULL DEFAULT '[]',
+      first_url TEXT,
+      media_ids_json TEXT,
+      media_uploaded_at TEXT,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (account_id, target, uri)
+    );
+  `
+  },
+  // Which queued jobs still need a stored media blob; see core/media-store.ts.
+  media_refs: {
+    keyColumns: ["account_id"],
+    sql: `
+    CREATE TABLE IF NOT EXISTS media_refs (
+      account_id TEXT NOT NULL DEFAULT '${DEFAULT_ACCOUNT_ID}',
+      sha256 TEXT NOT NULL,
+      holder TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (account_id, sha256, holder)
+    );
+    CREATE INDEX IF NOT EXISTS media_refs_holder ON media_refs (account_id, holder);
+  `
+  },
+  suspected_deletions: {
+    keyColumns: ["account_id"],
+    sql: `
+    CREATE TABLE IF NOT EXISTS suspected_deletions (
+      account_id TEXT NOT NULL DEFAULT '${DEFAULT_ACCOUNT_ID}',
+      uri TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      first_detected_at TEXT NOT NULL,
+      last_detected_at TEXT NOT NULL,
+      resolved_at TEXT,
+      PRIMARY KEY (account_id, uri)
+    );
+  `
+  }
+};
+
 export class AppDatabase {
   private readonly db: Database.Database;
+  readonly accountId: string;
+
+  constructor(dbPath: string);
+  constructor(connection: Database.Database, accountId: string);
+  constructor(source: string | Database.Database, accountId = DEFAULT_ACCOUNT_ID) {
+    this.accountId = accountId;
 
-  constructor(dbPath: string) {
+    if (typeof source !== "string") {
+      this.db = source;
+      return;
+    }
+
+    const dbPath = source;
     const dir = path.dirname(dbPath);
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
@@ -33,66 +193,199 @@ export class AppDatabase {
     }
   }
 
+  /**
+   * Older databases key these tables without some of the current key columns (no account
+   * before multi-account support, no target before named Twitter instances). Rebuild them
+   * with the current keys; the column defaults assign existing rows to the default account
+   * and the unnamed target.
+   */
+  private migrateToAccountScopedKeys(): void {
+    for (const [table, { keyColumns, sql }] of Object.entries(ACCOUNT_SCOPED_TABLES)) {
+      if (keyColumns.every((column) => this.hasColumn(table, column))) {
+        continue;
+      }
+
+      const columns = (this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>)
+        .map((row) => row.name)
+        .join(", ");
+
+      this.db.transaction(() => {
+        this.db.exec(`ALTER TABLE ${table} RENAME TO ${table}_legacy`);
+        this.db.exec(sql);
+        this.db.exec(`INSERT INTO ${table} (${columns}) SELECT ${columns} FROM ${table}_legacy`);
+        this.db.exec(`DROP TABLE ${table}_legacy`);
+      })();
+    }
+  }
+
+  forAccount(accountId: string): AppDatabase {
+    return new AppDatabase(this.db, accountId);
+  }
+
+  private hasTable(table: string): boolean {
+    return Boolean(this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table));
+  }
+
+  /**
+   * Databases from before the rolling budget window only know today's per-day counts. Carry
+   * them over as if posted now so an upgrade never grants a fresh budget mid-day.
+   */
+  private seedPostLogFromDailyCounts(): void {
+    const now = new Date().toISOString();
+    this.db
+      .prepare(
+        `
+        INSERT INTO target_post_log (account_id, target, posted_at, count)
+        SELECT account_id, target, ?, count FROM twitter_budget WHERE day = ? AND count > 0
+      `
+      )
+      .run(now, now.slice(0, 10));
+  }
+
   private init(): void {
+    const hadPostLog = this.hasTable("target_post_log");
+    this.db.exec(
+      Object.values(ACCOUNT_SCOPED_TABLES)
+        .map((table) => table.sql)
+        .join("\n")
+    );
     this.db.exec(`
-      CREATE TABLE IF NOT EXISTS source_posts (
-        uri TEXT PRIMARY KEY,
-        cid TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        detected_at TEXT NOT NULL,
-        deleted_at TEXT
+      CREATE TABLE IF NOT EXISTS sync_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
       );
 
-      CREATE TABLE IF NOT EXISTS platform_results (
-        uri TEXT NOT NULL,
-        platform TEXT NOT NULL,
-        status TEXT NOT NULL,
-        remote_id TEXT,
-        remote_ids_json TEXT,
-        remote_url TEXT,
-        error TEXT,
-        updated_at TEXT NOT NULL,
-        PRIMARY KEY (uri, platform)
+      -- Identities of other people, shared by every source account.
+      CREATE TABLE IF NOT EXISTS mention_mappings (
+        did TEXT PRIMARY KEY,
+        handle TEXT,
+        mastodon TEXT,
+        twitter TEXT,
+        nostr TEXT,
+        source TEXT NOT NULL,
+        checked_at TEXT,
+        updated_at TEXT NOT NULL
       );
 
-      CREATE TABLE IF NOT EXISTS twitter_budget (
-        day TEXT PRIMARY KEY,
-        count INTEGER NOT NULL DEFAULT 0
+      -- Content-addressed media files, shared by every source account. The key is the SHA-256
+      -- of the bytes, or the blob CID / URL hash of media fetched by workers.
+      CREATE TABLE IF NOT EXISTS media_blobs (
+        sha256 TEXT PRIMARY KEY,
+        size INTEGER NOT NULL,
+        created_at TEXT NOT NULL
       );
     `);
 
     this.ensureColumn("source_posts", "deleted_at", "TEXT");
+    this.ensureColumn("source_posts", "last_checked_at", "TEXT");
     this.ensureColumn("platform_results", "remote_ids_json", "TEXT");
+    this.ensureColumn("platform_results", "priority", "INTEGER");
+    this.migrateToAccountScopedKeys();
+
+    if (!hadPostLog) {
+      this.seedPostLogFromDailyCounts();
+    }
   }
 
   hasSeenSourcePost(uri: string): boolean {
     const row = this.db
-      .prepare("SELECT 1 FROM source_posts WHERE uri = ? LIMIT 1")
-      .get(uri) as { 1: number } | undefined;
+      .prepare("SELECT 1 FROM source_posts WHERE account_id = ? AND uri = ? LIMIT 1")
+      .get(this.accountId, uri) as { 1: number } | undefined;
     return Boolean(row);
   }
 
-  listActiveSourceUris(): string[] {
-    const rows = this.db
-      .prepare("SELECT uri FROM source_posts WHERE deleted_at IS NULL")
-      .all() as Array<{ uri: string }>;
-    return rows.map((row) => row.uri);
+  isSourcePostActive(uri: string): boolean {
+    const row = this.db
+      .prepare("SELECT 1 FROM source_posts WHERE account_id = ? AND uri = ? AND deleted_at IS NULL LIMIT 1")
+      .get(this.accountId, uri) as { 1: number } | undefined;
+    return Boolean(row);
+  }
+
+  getActiveSourcePostCid(uri: string): string | null {
+    const row = this.db
+      .prepare("SELECT cid FROM source_posts WHERE account_id = ? AND uri = ? AND deleted_at IS NULL")
+      .get(this.accountId, uri) as { cid: string } | undefined;
+    return row?.cid ?? null;
+  }
+
+  updateSourcePostCid(uri: string, cid: string): void {
+    this.db
+      .prepare("UPDATE source_posts SET cid = ? WHERE account_id = ? AND uri = ?")
+      .run(cid, this.accountId, uri);
+  }
+
+  isSourcePostDeleted(uri: string): boolean {
+    const row = this.db
+      .prepare("SELECT 1 FROM source_posts WHERE account_id = ? AND uri = ? AND deleted_at IS NOT NULL LIMIT 1")
+      .get(this.accountId, uri) as { 1: number } | undefined;
+    return Boolean(row);
+  }
+
+  /**
+   * Picks the next batch of active posts to check for deletion. Posts created since
+   * `recentSince` (the likeliest to be deleted) fill at most half of it, so older history
+   * keeps its share however busy the recent window is; either side fills what the other
+   * leaves. Within each, never-checked posts go first, then the ones checked longest ago.
+   * Together with `markSourcePostsChecked` this rotates through the whole history.
+   */
+  listSourceUrisForDeletionCheck(params: { recentSince: string; limit: number }): string[] {
+    const select = (window: "recent" | "older", limit: number): string[] => {
+      if (limit <= 0) {
+        return [];
+      }
+
+      const rows = this.db
+        .prepare(
+          `
+          SELECT uri
+          FROM source_posts
+          WHERE account_id = ?
+            AND deleted_at IS NULL
+            AND created_at ${window === "recent" ? ">=" : "<"} ?
+          ORDER BY
+            last_checked_at IS NOT NULL,
+            last_checked_at ASC,
+            created_at DESC
+          LIMIT ?
+        `
+        )
+        .all(this.accountId, params.recentSince, limit) as Array<{ uri: string }>;
+      return rows.map((row) => row.uri);
+    };
+
+    const recent = select("recent", params.limit);
+    const older = select("older", params.limit - Math.min(recent.length, Math.ceil(params.limit / 2)));
+    return [...recent.slice(0, params.limit - older.length), ...older];
+  }
+
+  markSourcePostsChecked(uris: string[]): void {
+    const statement = this.db.prepare(
+      "UPDATE source_posts SET last_checked_at = ? WHERE account_id = ? AND uri = ?"
+    );
+    const checkedAt = new Date().toISOString();
+    const markAll = this.db.transaction((batch: string[]) => {
+      for (const uri of batch) {
+        statement.run(checkedAt, this.accountId, uri);
+      }
+    });
+    markAll(uris);
   }
 
   markSourcePostSeen(uri: string, cid: string, createdAt: string): void {
     this.db
       .prepare(
         `
-        INSERT INTO source_posts (uri, cid, created_at, detected_at, deleted_at)
-        VALUES (?, ?, ?, ?, NULL)
-        ON CONFLICT(uri) DO UPDATE SET
+        INSERT INTO source_posts (account_id, uri, cid, created_at, detected_at, deleted_at)
+        VALUES (?, ?, ?, ?, ?, NULL)
+        ON CONFLICT(account_id, uri) DO UPDATE SET
           cid = excluded.cid,
           created_at = excluded.created_at,
           detected_at = excluded.detected_at,
           deleted_at = NULL
       `
       )
-      .run(uri, cid, createdAt, new Date().toISOString());
+      .run(this.accountId, uri, cid, createdAt, new Date().toISOString());
   }
 
   markSourcePostDeleted(uri: string): void {
@@ -101,15 +394,47 @@ export class AppDatabase {
         `
         UPDATE source_posts
         SET deleted_at = ?
-        WHERE uri = ?
+        WHERE account_id = ? AND uri = ?
+      `
+      )
+      .run(new Date().toISOString(), this.accountId, uri);
+  }
+
+  /**
+   * Keeps posts that looked deleted but could not be confirmed (or were held back by the
+   * mass-deletion guard) for manual review.
+   */
+  recordSuspectedDeletion(uri: string, reason: string): void {
+    const now = new Date().toISOString();
+    this.db
+      .prepare(
+        `
+        INSERT INTO suspected_deletions (account_id, uri, reason, first_detected_at, last_detected_at, resolved_at)
+        VALUES (?, ?, ?, ?, ?, NULL)
+        ON CONFLICT(account_id, uri) DO UPDATE SET
+          reason = excluded.reason,
+          last_detected_at = excluded.last_detected_at,
+          resolved_at = NULL
+      `
+      )
+      .run(this.accountId, uri, reason, now, now);
+  }
+
+  resolveSuspectedDeletion(uri: string): void {
+    this.db
+      .prepare(
+        `
+        UPDATE suspected_deletions
+        SET resolved_at = ?
+        WHERE account_id = ? AND uri = ? AND resolved_at IS NULL
       `
       )
-      .run(new Date().toISOString(), uri);
+      .run(new Date().toISOString(), this.accountId, uri);
   }
 
   recordPlatformSuccess(params: {
     uri: string;
-    platform: PlatformName;
+    platform: TargetKey;
     remoteId?: string;
     remoteIds?: string[];
     remoteUrl?: string;
@@ -121,9 +446,9 @@ export class AppDatabase {
     this.db
       .prepare(
         `
-        INSERT INTO platform_results (uri, platform, status, remote_id, remote_ids_json, remote_url, error, updated_at)
-        VALUES (?, ?, 'success', ?, ?, ?, NULL, ?)
-        ON CONFLICT(uri, platform) DO UPDATE SET
+        INSERT INTO platform_results (account_id, uri, platform, status, remote_id, remote_ids_json, remote_url, error, updated_at)
+        VALUES (?, ?, ?, 'success', ?, ?, ?, NULL, ?)
+        ON CONFLICT(account_id, uri, platform) DO UPDATE SET
           status = excluded.status,
           remote_id = excluded.remote_id,
           remote_ids_json = excluded.remote_ids_json,
@@ -133,6 +458,7 @@ export class AppDatabase {
       `
       )
       .run(
+        this.accountId,
         params.uri,
         params.platform,
         params.remoteId ?? null,
@@ -140,34 +466,130 @@ export class AppDatabase {
         params.remoteUrl ?? null,
         new Date().toISOString()
       );
+    this.clearThreadProgress(params.uri, params.platform);
+  }
+
+  /**
+   * Marks a post as handed to a platform's queue. Existing results are left untouched so a
+   * re-enqueue never hides an earlier success or failure.
+   */
+  recordPlatformQueued(params: { uri: string; platform: TargetKey }): void {
+    this.db
+      .prepare(
+        `
+        INSERT INTO platform_results (account_id, uri, platform, status, remote_id, remote_ids_json, remote_url, error, updated_at)
+        VALUES (?, ?, ?, 'queued', NULL, NULL, NULL, NULL, ?)
+        ON CONFLICT(account_id, uri, platform) DO NOTHING
+      `
+      )
+      .run(this.accountId, params.uri, params.platform, new Date().toISOString());
+  }
+
+  getPlatformStatus(uri: string, platform: TargetKey): string | null {
+    const row = this.db
+      .prepare("SELECT status FROM platform_results WHERE account_id = ? AND uri = ? AND platform = ?")
+      .get(this.accountId, uri, platform) as { status: string } | undefined;
+    return row?.status ?? null;
+  }
+
+  /** Keeps the queue priority a post job got, so self-replies queued later can inherit it. */
+  recordPostPriority(uri: string, platform: TargetKey, priority: number): void {
+    this.db
+      .prepare(
+        `
+        INSERT INTO platform_results (account_id, uri, platform, status, priority, updated_at)
+        VALUES (?, ?, ?, 'queued', ?, ?)
+        ON CONFLICT(account_id, uri, platform) DO UPDATE SET priority = excluded.priority
+      `
+      )
+      .run(this.accountId, uri, platform, priority, new Date().toISOString());
+  }
+
+  getPostPriority(uri: string, platform: TargetKey): number | null {
+    const row = this.db
+      .prepare("SELECT priority FROM platform_results WHERE account_id = ? AND uri = ? AND platform = ?")
+      .get(this.accountId, uri, platform) as { priority: number | null } | undefined;
+    return row?.priority ?? null;
+  }
+
+  getPlatformsWithoutResults(uri: string, platforms: TargetKey[]): TargetKey[] {
+    const rows = this.db
+      .prepare("SELECT platform FROM platform_results WHERE account_id = ? AND uri = ?")
+      .all(this.accountId, uri) as Array<{ platform: TargetKey }>;
+    const known = new Set(rows.map((row) => row.platform));
+    return platforms.filter((platform) => !known.has(platform));
+  }
+
+  /**
+   * Active posts created since `createdAfter` that never reached the given platform, oldest
+   * first so reply parents are caught up before their children.
+   */
+  listPostsMissingPlatform(
+    platform: TargetKey,
+    createdAfter: string,
+    limit: number
+  ): Array<{ uri: string; createdAt: string }> {
+    return this.db
+      .prepare(
+        `
+        SELECT sp.uri AS uri, sp.created_at AS createdAt
+        FROM source_posts sp
+        WHERE sp.account_id = ?
+          AND sp.deleted_at IS NULL
+          AND sp.created_at >= ?
+          AND NOT EXISTS (
+            SELECT 1
+            FROM platform_results pr
+            WHERE pr.account_id = sp.account_id AND pr.uri = sp.uri AND pr.platform = ?
+          )
+        ORDER BY sp.created_at ASC
+        LIMIT ?
+      `
+      )
+      .all(this.accountId, createdAfter, platform, limit) as Array<{ uri: string; createdAt: string }>;
   }
 
   recordPlatformFailure(params: {
     uri: string;
-    platform: PlatformName;
+    platform: TargetKey;
     error: string;
   }): void {
     this.db
       .prepare(
         `
-        INSERT INTO platform_results (uri, platform, status, remote_id, remote_ids_json, remote_url, error, updated_at)
-        VALUES (?, ?, 'failed', NULL, NULL, NULL, ?, ?)
-        ON CONFLICT(uri, platform) DO UPDATE SET
+        INSERT INTO platform_results (account_id, uri, platform, status, remote_id, remote_ids_json, remote_url, error, updated_at)
+        VALUES (?, ?, ?, 'failed', NULL, NULL, NULL, ?, ?)
+        ON CONFLICT(account_id, uri, platform) DO UPDATE SET
           status = excluded.status,
           error = excluded.error,
           updated_at = excluded.updated_at
       `
       )
-      .run(params.uri, params.platform, params.error, new Date().toISOString());
+      .run(this.accountId, params.uri, params.platform, params.error, new Date().toISOString());
   }
 
-  recordPlatformDeletion(params: { uri: string; platform: PlatformName }): void {
+  recordPlatformCancelled(params: { uri: string; platform: TargetKey }): void {
     this.db
       .prepare(
         `
-        INSERT INTO platform_results (uri, platform, status, remote_id, remote_ids_json, remote_url, error, updated_at)
-        VALUES (?, ?, 'deleted', NULL, NULL, NULL, NULL, ?)
-        ON CONFLICT(uri, platform) DO UPDATE SET
+        INSERT INTO platform_results (account_id, uri, platform, status, remote_id, remote_ids_json, remote_url, error, updated_at)
+        VALUES (?, ?, ?, 'cancelled', NULL, NULL, NULL, NULL, ?)
+        ON CONFLICT(account_id, uri, platform) DO UPDATE SET
+          status = excluded.status,
+          error = NULL,
+          updated_at = excluded.updated_at
+      `
+      )
+      .run(this.accountId, params.uri, params.platform, new Date().toISOString());
+  }
+
+  recordPlatformDeletion(params: { uri: string; platform: TargetKey }): void {
+    this.db
+      .prepare(
+        `
+        INSERT INTO platform_results (account_id, uri, platform, status, remote_id, remote_ids_json, remote_url, error, updated_at)
+        VALUES (?, ?, ?, 'deleted', NULL, NULL, NULL, NULL, ?)
+        ON CONFLICT(account_id, uri, platform) DO UPDATE SET
           status = excluded.status,
           remote_id = NULL,
           remote_ids_json = NULL,
@@ -176,15 +598,16 @@ export class AppDatabase {
           updated_at = excluded.updated_at
       `
       )
-      .run(params.uri, params.platform, new Date().toISOString());
+      .run(this.accountId, params.uri, params.platform, new Date().toISOString());
+    this.clearThreadProgress(params.uri, params.platform);
   }
 
-  getPlatformRemoteIds(uri: string, platform: PlatformName): string[] {
+  getPlatformRemoteIds(uri: string, platform: TargetKey): string[] {
     const row = this.db
       .prepare(
-        "SELECT remote_id, remote_ids_json FROM platform_results WHERE uri = ? AND platform = ?"
+        "SELECT remote_id, remote_ids_json FROM platform_results WHERE account_id = ? AND uri = ? AND platform = ?"
       )
-      .get(uri, platform) as PlatformResultRow | undefined;
+      .get(this.accountId, uri, platform) as PlatformResultRow | undefined;
 
     if (!row) {
       return [];
@@ -204,55 +627,352 @@ export class AppDatabase {
     return row.remote_id ? [row.remote_id] : [];
   }
 
-  getPlatformRemoteId(uri: string, platform: PlatformName): string | null {
+  /**
+   * Everything a delete has to remove: the recorded thread, or the chunks of one that failed
+   * part-way and was never recorded as a success.
+   */
+  getRemoteIdsForDeletion(uri: string, platform: TargetKey): string[] {
+    const remoteIds = this.getPlatformRemoteIds(uri, platform);
+    return remoteIds.length > 0 ? remoteIds : this.getThreadProgress(uri, platform)?.remoteIds ?? [];
+  }
+
+  getPlatformRemoteId(uri: string, platform: TargetKey): string | null {
     return this.getPlatformRemoteIds(uri, platform)[0] ?? null;
   }
 
-  getPlatformRemoteUrl(uri: string, platform: PlatformName): string | null {
+  getPlatformRemoteUrl(uri: string, platform: TargetKey): string | null {
     const row = this.db
-      .prepare("SELECT remote_url FROM platform_results WHERE uri = ? AND platform = ?")
-      .get(uri, platform) as { remote_url: string | null } | undefined;
+      .prepare("SELECT remote_url FROM platform_results WHERE account_id = ? AND uri = ? AND platform = ?")
+      .get(this.accountId, uri, platform) as { remote_url: string | null } | undefined;
     return row?.remote_url ?? null;
   }
 
-  getPlatformsWithRemoteIds(uri: string): PlatformName[] {
+  getPlatformsWithRemoteIds(uri: string): TargetKey[] {
     const rows = this.db
       .prepare(
         `
         SELECT platform
         FROM platform_results
-        WHERE uri = ?
+        WHERE account_id = ?
+          AND uri = ?
           AND status = 'success'
           AND (
             (remote_id IS NOT NULL AND remote_id <> '')
             OR (remote_ids_json IS NOT NULL AND remote_ids_json <> '')
           )
+        UNION
+        SELECT target AS platform
+        FROM thread_progress
+        WHERE account_id = ?
+          AND uri = ?
+          AND remote_ids_json <> '[]'
       `
       )
-      .all(uri) as Array<{ platform: PlatformName }>;
+      .all(this.accountId, uri, this.accountId, uri) as Array<{ platform: TargetKey }>;
 
     return rows.map((row) => row.platform);
   }
 
-  getTwitterPostCount(day: string): number {
+  getThreadProgress(
+    uri: string,
+    target: TargetKey
+  ): { remoteIds: string[]; firstUrl?: string; mediaIds?: string[]; mediaUploadedAt?: string } | null {
+    const row = this.db
+      .prepare(
+        `
+        SELECT remote_ids_json AS remoteIdsJson, first_url AS firstUrl, media_ids_json AS mediaIdsJson,
+          media_uploaded_at AS mediaUploadedAt
+        FROM thread_progress
+        WHERE account_id = ? AND target = ? AND uri = ?
+      `
+      )
+      .get(this.accountId, target, uri) as
+      | { remoteIdsJson: string; firstUrl: string | null; mediaIdsJson: string | null; mediaUploadedAt: string | null }
+      | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      remoteIds: JSON.parse(row.remoteIdsJson) as string[],
+      firstUrl: row.firstUrl ?? undefined,
+      mediaIds: row.mediaIdsJson ? (JSON.parse(row.mediaIdsJson) as string[]) : undefined,
+      mediaUploadedAt: row.mediaUploadedAt ?? undefined
+    };
+  }
+
+  /** Checkpoints a thread being published chunk by chunk (see `ThreadCheckpoint`). */
+  saveThreadProgress(params: {
+    uri: string;
+    target: TargetKey;
+    remoteIds: string[];
+    firstUrl?: string;
+    mediaIds?: string[];
+    mediaUploadedAt?: string;
+  }): void {
+    this.db
+      .prepare(
+        `
+        INSERT INTO thread_progress (account_id, target, uri, remote_ids_json, first_url, media_ids_json, media_uploaded_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(account_id, target, uri) DO UPDATE SET
+          remote_ids_json = excluded.remote_ids_json,
+          first_url = excluded.first_url,
+          media_ids_json = excluded.media_ids_json,
+          media_uploaded_at = excluded.media_uploaded_at,
+          updated_at = excluded.updated_at
+      `
+      )
+      .run(
+        this.accountId,
+        params.target,
+        params.uri,
+        JSON.stringify(params.remoteIds),
+        params.firstUrl ?? null,
+        params.mediaIds ? JSON.stringify(params.mediaIds) : null,
+        params.mediaUploadedAt ?? null,
+        new Date().toISOString()
+      );
+  }
+
+  clearThreadProgress(uri: string, target: TargetKey): void {
+    this.db
+      .prepare("DELETE FROM thread_progress WHERE account_id = ? AND target = ? AND uri = ?")
+      .run(this.accountId, target, uri);
+  }
+
+  /** Records writes against a target's rolling budget window; entries older than two windows are pruned. */
+  recordTargetPosts(target: TargetKey, count: number, windowMs: number): void {
+    const now = Date.now();
+    this.db
+      .prepare("INSERT INTO target_post_log (account_id, target, posted_at, count) VALUES (?, ?, ?, ?)")
+      .run(this.accountId, target, new Date(now).toISOString(), count);
+    this.db
+      .prepare("DELETE FROM target_post_log WHERE account_id = ? AND target = ? AND posted_at < ?")
+      .run(this.accountId, target, new Date(now - 2 * windowMs).toISOString());
+  }
+
+  /** Write timestamps (ms, oldest first, one entry per post) since `since`. */
+  listTargetPostTimes(target: TargetKey, since: string): number[] {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT posted_at AS postedAt, count
+        FROM target_post_log
+        WHERE account_id = ? AND target = ? AND posted_at > ?
+        ORDER BY posted_at ASC
+      `
+      )
+      .all(this.accountId, target, since) as Array<{ postedAt: string; count: number }>;
+
+    return rows.flatMap((row) => Array<number>(row.count).fill(Date.parse(row.postedAt)));
+  }
+
+  countTargetPostsSince(target: TargetKey, since: string): number {
+    const row = this.db
+      .prepare(
+        "SELECT COALESCE(SUM(count), 0) AS total FROM target_post_log WHERE account_id = ? AND target = ? AND posted_at > ?"
+      )
+      .get(this.accountId, target, since) as { total: number };
+    return row.total;
+  }
+
+  /** Keeps the latest forecast for a job held back by a target's budget. */
+  recordDeferredJob(params: {
+    target: TargetKey;
+    uri: string;
+    action: string;
+    priority: number;
+    posts: number;
+    reason: string;
+    forecastAt: string;
+  }): void {
+    this.db
+      .prepare(
+        `
+        INSERT INTO deferred_jobs (account_id, target, uri, action, priority, posts, reason, deferred_at, forecast_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(account_id, target, uri, action) DO UPDATE SET
+          priority = excluded.priority,
+          posts = excluded.posts,
+          reason = excluded.reason,
+          forecast_at = excluded.forecast_at
+      `
+      )
+      .run(
+        this.accountId,
+        params.target,
+        params.uri,
+        params.action,
+        params.priority,
+        params.posts,
+        params.reason,
+        new Date().toISOString(),
+        params.forecastAt
+      );
+  }
+
+  clearDeferredJob(target: TargetKey, uri: string, action: string): void {
+    this.db
+      .prepare("DELETE FROM deferred_jobs WHERE account_id = ? AND target = ? AND uri = ? AND action = ?")
+      .run(this.accountId, target, uri, action);
+  }
+
+  getDeferredForecast(target: TargetKey, uri: string, action: string): string | null {
+    const row = this.db
+      .prepare(
+        "SELECT forecast_at FROM deferred_jobs WHERE account_id = ? AND target = ? AND uri = ? AND action = ?"
+      )
+      .get(this.accountId, target, uri, action) as { forecast_at: string } | undefined;
+    return row?.forecast_at ?? null;
+  }
+
+  /** Posts already waiting for the budget that go before a job of `priority` (1 is highest). */
+  countDeferredPostsAhead(target: TargetKey, priority: number, excludeUri: string): number {
     const row = this.db
-      .prepare("SELECT count FROM twitter_budget WHERE day = ?")
-      .get(day) as { count: number } | undefined;
-    return row?.count ?? 0;
+      .prepare(
+        `
+        SELECT COALESCE(SUM(posts), 0) AS total
+        FROM deferred_jobs
+        WHERE account_id = ? AND target = ? AND priority <= ? AND uri <> ?
+      `
+      )
+      .get(this.accountId, target, priority, excludeUri) as { total: number };
+    return row.total;
+  }
+
+  getMentionMapping(did: string): MentionMapping | null {
+    const row = this.db.prepare("SELECT * FROM mention_mappings WHERE did = ?").get(did) as
+      | MentionMappingRow
+      | undefined;
+    return row ? toMentionMapping(row) : null;
+  }
+
+  listMentionMappings(): MentionMapping[] {
+    const rows = this.db.prepare("SELECT * FROM mention_mappings ORDER BY handle, did").all() as MentionMappingRow[];
+    return rows.map(toMentionMapping);
   }
 
-  incrementTwitterPostCount(day: string, incrementBy = 1): number {
+  /** Replaces the whole row; callers merge with the existing mapping first. */
+  saveMentionMapping(mapping: MentionMapping): void {
     this.db
       .prepare(
         `
-        INSERT INTO twitter_budget (day, count)
-        VALUES (?, ?)
-        ON CONFLICT(day) DO UPDATE SET count = count + excluded.count
+        INSERT INTO mention_mappings (did, handle, mastodon, twitter, nostr, source, checked_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(did) DO UPDATE SET
+          handle = excluded.handle,
+          mastodon = excluded.mastodon,
+          twitter = excluded.twitter,
+          nostr = excluded.nostr,
+          source = excluded.source,
+          checked_at = excluded.checked_at,
+          updated_at = excluded.updated_at
       `
       )
-      .run(day, incrementBy);
+      .run(
+        mapping.did,
+        mapping.handle ?? null,
+        mapping.mastodon ?? null,
+        mapping.twitter ?? null,
+        mapping.nostr ?? null,
+        mapping.source,
+        mapping.checkedAt ?? null,
+        new Date().toISOString()
+      );
+  }
+
+  deleteMentionMapping(did: string): boolean {
+    return this.db.prepare("DELETE FROM mention_mappings WHERE did = ?").run(did).changes > 0;
+  }
+
+  /**
+   * Records the blob and `holder`'s reference to it in one transaction, so a release running
+   * in between never finds the blob unreferenced.
+   */
+  addMediaReference(sha256: string, size: number, holder: string): void {
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      this.db
+        .prepare("INSERT OR IGNORE INTO media_blobs (sha256, size, created_at) VALUES (?, ?, ?)")
+        .run(sha256, size, now);
+      this.db
+        .prepare("INSERT OR IGNORE INTO media_refs (account_id, sha256, holder, created_at) VALUES (?, ?, ?, ?)")
+        .run(this.accountId, sha256, holder, now);
+    })();
+  }
 
-    return this.getTwitterPostCount(day);
+  /** References media a worker has yet to download; the blob is recorded once it is. */
+  reserveMediaReference(key: string, holder: string): void {
+    this.db
+      .prepare("INSERT OR IGNORE INTO media_refs (account_id, sha256, holder, created_at) VALUES (?, ?, ?, ?)")
+      .run(this.accountId, key, holder, new Date().toISOString());
+  }
+
+  recordMediaBlob(key: string, size: number): void {
+    this.db
+      .prepare("INSERT OR IGNORE INTO media_blobs (sha256, size, created_at) VALUES (?, ?, ?)")
+      .run(key, size, new Date().toISOString());
+  }
+
+  /** Drops every reference `holder` has and returns the blobs no account references any more. */
+  releaseMediaReferences(holder: string): string[] {
+    return this.db.transaction(() => {
+      const rows = this.db
+        .prepare("SELECT sha256 FROM media_refs WHERE account_id = ? AND holder = ?")
+        .all(this.accountId, holder) as Array<{ sha256: string }>;
+      this.db.prepare("DELETE FROM media_refs WHERE account_id = ? AND holder = ?").run(this.accountId, holder);
+
+      const stillReferenced = this.db.prepare("SELECT 1 FROM media_refs WHERE sha256 = ? LIMIT 1");
+      return rows.map((row) => row.sha256).filter((sha256) => !stillReferenced.get(sha256));
+    })();
+  }
+
+  /** Drops references of every account created before `before`; returns how many were dropped. */
+  expireMediaReferences(before: string): number {
+    return this.db.prepare("DELETE FROM media_refs WHERE created_at < ?").run(before).changes;
+  }
+
+  listUnreferencedMediaBlobs(): string[] {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT sha256 FROM media_blobs
+        WHERE NOT EXISTS (SELECT 1 FROM media_refs WHERE media_refs.sha256 = media_blobs.sha256)
+      `
+      )
+      .all() as Array<{ sha256: string }>;
+    return rows.map((row) => row.sha256);
+  }
+
+  hasMediaBlob(sha256: string): boolean {
+    return Boolean(this.db.prepare("SELECT 1 FROM media_blobs WHERE sha256 = ?").get(sha256));
+  }
+
+  deleteMediaBlob(sha256: string): void {
+    this.db.prepare("DELETE FROM media_blobs WHERE sha256 = ?").run(sha256);
+  }
+
+  getSyncState(key: string): string | null {
+    const row = this.db
+      .prepare("SELECT value FROM sync_state WHERE key = ?")
+      .get(key) as { value: string } | undefined;
+    return row?.value ?? null;
+  }
+
+  setSyncState(key: string, value: string): void {
+    this.db
+      .prepare(
+        `
+        INSERT INTO sync_state (key, value, updated_at)
+        VALUES (?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET
+          value = excluded.value,
+          updated_at = excluded.updated_at
+      `
+      )
+      .run(key, value, new Date().toISOString());
   }
 
   close(): void {
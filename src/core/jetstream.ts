@@ -0,0 +1,342 @@
+import WebSocket from "ws";
+import type { Logger } from "pino";
+import { env } from "../config/env.js";
+import { logger } from "../config/logger.js";
+import { BlueskySourceAdapter } from "../adapters/bluesky.js";
+import { AppDatabase } from "./db.js";
+import { BlueskyPoller } from "./poller.js";
+
+const POST_COLLECTION = "app.bsky.feed.post";
+const HEARTBEAT_INTERVAL_MS = 30_000;
+// Rewind a little on reconnect; replayed events are harmless because ingestion dedups.
+const CURSOR_REWIND_US = 5_000_000;
+const HYDRATE_ATTEMPTS = 4;
+const HYDRATE_RETRY_DELAY_MS = 2_000;
+// Posts still not hydrated after this long are left to one forced feed poll.
+const UNHYDRATED_MAX_AGE_MS = 15 * 60 * 1000;
+
+interface JetstreamCommitEvent {
+  did?: string;
+  time_us?: number;
+  kind?: string;
+  commit?: {
+    operation?: "create" | "update" | "delete";
+    collection?: string;
+    rkey?: string;
+    cid?: string;
+  };
+}
+
+interface UnhydratedPost {
+  cid?: string;
+  /** Jetstream time of the commit; the stored cursor stays before it until the post is ingested. */
+  timeUs?: number;
+  since: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Streams our own post commits from a Jetstream websocket and feeds them into the poller's
+ * ingestion and deletion paths. The poller keeps polling whenever the stream is down.
+ * Posts the appview cannot hydrate yet are retried every BLUESKY_POLL_INTERVAL_MS, and the
+ * stored cursor does not move past them, so neither a slow appview nor a restart loses them.
+ */
+export class BlueskyJetstreamSubscriber {
+  private readonly log: Logger;
+  private readonly source: BlueskySourceAdapter;
+  private readonly db: AppDatabase;
+  private readonly poller: BlueskyPoller;
+  private readonly hydrateRetryDelayMs: number;
+
+  private socket: WebSocket | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private readonly unhydrated = new Map<string, UnhydratedPost>();
+  private lastTimeUs: number | undefined;
+  private awaitingPong = false;
+  private stopped = true;
+  private processing: Promise<void> = Promise.resolve();
+
+  constructor(params: {
+    source: BlueskySourceAdapter;
+    db: AppDatabase;
+    poller: BlueskyPoller;
+    hydrateRetryDelayMs?: number;
+  }) {
+    this.source = params.source;
+    this.db = params.db;
+    this.poller = params.poller;
+    this.hydrateRetryDelayMs = params.hydrateRetryDelayMs ?? HYDRATE_RETRY_DELAY_MS;
+    this.log = logger.child({ module: "core/jetstream", account: params.db.accountId });
+  }
+
+  private get cursorKey(): string {
+    return `jetstream_cursor:${this.source.did}`;
+  }
+
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+    this.connect();
+
+    this.retryTimer = setInterval(() => {
+      this.enqueueWork(() => this.retryUnhydrated());
+    }, env.BLUESKY_POLL_INTERVAL_MS);
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    this.stopHeartbeat();
+    this.socket?.close();
+    this.socket = null;
+
+    await this.processing;
+  }
+
+  private buildUrl(): string {
+    const url = new URL(env.BLUESKY_JETSTREAM_URL);
+    url.searchParams.set("wantedCollections", POST_COLLECTION);
+    url.searchParams.set("wantedDids", this.source.did);
+
+    const storedCursor = Number(this.db.getSyncState(this.cursorKey));
+    if (Number.isFinite(storedCursor) && storedCursor > 0) {
+      url.searchParams.set("cursor", String(Math.max(0, storedCursor - CURSOR_REWIND_US)));
+    }
+
+    return url.toString();
+  }
+
+  private connect(): void {
+    const url = this.buildUrl();
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.on("open", () => {
+      this.log.info({ url }, "Connected to Jetstream");
+      this.poller.setStreamingActive(true);
+      this.startHeartbeat(socket);
+    });
+
+    socket.on("message", (data) => {
+      const raw = data.toString();
+      this.enqueueWork(() => this.handleMessage(raw));
+    });
+
+    socket.on("pong", () => {
+      this.awaitingPong = false;
+    });
+
+    socket.on("error", (error) => {
+      this.log.warn({ error: error.message }, "Jetstream connection error");
+    });
+
+    socket.on("close", (code) => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.socket = null;
+      this.stopHeartbeat();
+      this.poller.setStreamingActive(false);
+
+      if (this.stopped) {
+        return;
+      }
+
+      this.log.warn(
+        { code, reconnectInMs: env.BLUESKY_JETSTREAM_RECONNECT_MS },
+        "Jetstream disconnected; falling back to polling until reconnected"
+      );
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, env.BLUESKY_JETSTREAM_RECONNECT_MS);
+    });
+  }
+
+  /** Events and retries run one at a time, in arrival order. */
+  private enqueueWork(work: () => Promise<void>): void {
+    this.processing = this.processing.then(work).catch((error) => {
+      this.log.error(
+        {
+          error: error instanceof Error ? error.message : String(error)
+        },
+        "Failed to process Jetstream event"
+      );
+    });
+  }
+
+  private startHeartbeat(socket: WebSocket): void {
+    this.stopHeartbeat();
+    this.awaitingPong = false;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (this.awaitingPong) {
+        this.log.warn("Jetstream heartbeat timed out; reconnecting");
+        socket.terminate();
+        return;
+      }
+
+      this.awaitingPong = true;
+      socket.ping();
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private async handleMessage(raw: string): Promise<void> {
+    let event: JetstreamCommitEvent;
+    try {
+      event = JSON.parse(raw) as JetstreamCommitEvent;
+    } catch {
+      this.log.warn("Ignoring malformed Jetstream message");
+      return;
+    }
+
+    const commit = event.commit;
+    if (
+      event.kind === "commit" &&
+      event.did === this.source.did &&
+      commit?.collection === POST_COLLECTION &&
+      typeof commit.rkey === "string"
+    ) {
+      const sourceUri = `at://${event.did}/${POST_COLLECTION}/${commit.rkey}`;
+
+      if (commit.operation === "create" || commit.operation === "update") {
+        if (!(await this.hydrateAndIngest(sourceUri, commit.cid))) {
+          this.unhydrated.set(sourceUri, { cid: commit.cid, timeUs: event.time_us, since: Date.now() });
+          this.log.info({ sourceUri }, "Jetstream post could not be hydrated yet; retrying later");
+        }
+      } else if (commit.operation === "delete") {
+        this.unhydrated.delete(sourceUri);
+        await this.poller.handleDeletedSourcePost(sourceUri);
+      }
+    }
+
+    if (typeof event.time_us === "number") {
+      this.lastTimeUs = event.time_us;
+      this.saveCursor();
+    }
+  }
+
+  /** The last event's time, held back before the oldest post that is still waiting for hydration. */
+  private saveCursor(): void {
+    if (this.lastTimeUs === undefined) {
+      return;
+    }
+
+    let cursor = this.lastTimeUs;
+    for (const pending of this.unhydrated.values()) {
+      if (pending.timeUs !== undefined) {
+        cursor = Math.min(cursor, pending.timeUs - 1);
+      }
+    }
+
+    this.db.setSyncState(this.cursorKey, String(cursor));
+  }
+
+  /** Whether the post was fetched from the appview and ingested. */
+  private async hydrateAndIngest(
+    sourceUri: string,
+    expectedCid?: string,
+    attempts = HYDRATE_ATTEMPTS
+  ): Promise<boolean> {
+    // The appview indexes records shortly after they hit the firehose, so hydration can
+    // briefly come back empty (or, for updates, still show the previous version); a failed
+    // request is retried the same way.
+    let post: any;
+    for (let attempt = 1; attempt <= attempts; attempt += 1) {
+      try {
+        [post] = await this.source.fetchOwnPostsByUri([sourceUri]);
+      } catch (error) {
+        post = undefined;
+        this.log.warn(
+          {
+            sourceUri,
+            attempt,
+            error: error instanceof Error ? error.message : String(error)
+          },
+          "Failed to hydrate Jetstream post"
+        );
+      }
+
+      if (post && (!expectedCid || post.post?.cid === expectedCid)) {
+        break;
+      }
+
+      post = undefined;
+      if (attempt < attempts) {
+        await sleep(this.hydrateRetryDelayMs * attempt);
+      }
+    }
+
+    if (!post) {
+      return false;
+    }
+
+    try {
+      await this.poller.ingestFeedItems([post]);
+      return true;
+    } catch (error) {
+      this.log.warn(
+        {
+          sourceUri,
+          error: error instanceof Error ? error.message : String(error)
+        },
+        "Failed to ingest Jetstream post"
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Tries the waiting posts once more. Those that never show up (typically not syndicatable,
+   * e.g. replies to other accounts) are given up after UNHYDRATED_MAX_AGE_MS, with a feed
+   * poll to catch any that were only slow.
+   */
+  private async retryUnhydrated(): Promise<void> {
+    if (this.unhydrated.size === 0) {
+      return;
+    }
+
+    let expired = 0;
+    for (const [sourceUri, pending] of [...this.unhydrated]) {
+      if (await this.hydrateAndIngest(sourceUri, pending.cid, 1)) {
+        this.unhydrated.delete(sourceUri);
+      } else if (Date.now() - pending.since >= UNHYDRATED_MAX_AGE_MS) {
+        this.unhydrated.delete(sourceUri);
+        expired += 1;
+      }
+    }
+
+    if (expired > 0) {
+      this.log.warn({ expired }, "Jetstream posts could not be hydrated; polling the feed for them instead");
+      this.poller.requestFeedPoll();
+    }
+
+    this.saveCursor();
+  }
+}
@@ -1,4 +1,5 @@
 import type { CrossPost, CrossPostWire } from "./types.js";
+import type { MediaStore } from "./media-store.js";
 
 function asBuffer(value: unknown): Buffer {
   if (Buffer.isBuffer(value)) {
@@ -27,45 +28,70 @@ function asBuffer(value: unknown): Buffer {
   throw new Error("Unsupported media payload format in queue job");
 }
 
-export function encodePostForQueue(post: CrossPost): CrossPostWire {
+/**
+ * Puts the media into the store, referenced by each of `holders` (see `mediaHolderFor`);
+ * media the worker is yet to download is reserved under its key.
+ */
+export function encodePostForQueue(post: CrossPost, store: MediaStore, holders: string[]): CrossPostWire {
+  for (const pending of post.pendingMedia ?? []) {
+    store.reserve(pending.key, holders);
+  }
+
   return {
     ...post,
     media: post.media?.map((media) => ({
       type: media.type,
-      dataBase64: media.data.toString("base64"),
+      sha256: store.put(media.data, holders),
       mimeType: media.mimeType,
       altText: media.altText,
-      filename: media.filename
+      filename: media.filename,
+      animated: media.animated
     }))
   };
 }
 
-export function decodePostFromQueue(post: CrossPost | CrossPostWire): CrossPost {
+/** Reads stored media back from the store; bytes inline in older jobs are decoded as before. */
+export async function decodePostFromQueue(post: CrossPost | CrossPostWire, store: MediaStore): Promise<CrossPost> {
   const wire = post as CrossPostWire;
 
-  const media = wire.media?.map((entry) => {
-    const fallback = entry as unknown as { data?: unknown };
-    const raw = "dataBase64" in entry ? entry.dataBase64 : fallback.data;
+  const media = wire.media
+    ? await Promise.all(
+        wire.media.map(async (entry) => {
+          const fallback = entry as unknown as { data?: unknown };
+          const raw = "dataBase64" in entry ? entry.dataBase64 : fallback.data;
 
-    return {
-      type: entry.type,
-      data: asBuffer(raw),
-      mimeType: entry.mimeType,
-      altText: entry.altText,
-      filename: entry.filename
-    };
-  });
+          return {
+            type: entry.type,
+            data: entry.sha256 ? await store.read(entry.sha256) : asBuffer(raw),
+            mimeType: entry.mimeType,
+            altText: entry.altText,
+            filename: entry.filename,
+            animated: entry.animated
+          };
+        })
+      )
+    : undefined;
 
   return {
     text: wire.text,
+    facets: wire.facets,
     media,
+    pendingMedia: wire.pendingMedia,
     links: wire.links,
+    external: wire.external,
     altText: wire.altText,
     createdAt: wire.createdAt,
     authorDid: wire.authorDid,
     reply: wire.reply,
     quote: wire.quote,
+    labels: wire.labels,
+    langs: wire.langs,
     sourceUri: wire.sourceUri,
     sourceCid: wire.sourceCid
   };
 }
+
+/** Whether the job still carries media bytes inline, as jobs queued before the media store do. */
+export function hasInlineMedia(post: CrossPost | CrossPostWire): boolean {
+  return (post.media ?? []).some((media) => !(media as { sha256?: string }).sha256);
+}
@@ -0,0 +1,34 @@
+import { env } from "../config/env.js";
+import type { CrossPost } from "./types.js";
+
+/**
+ * Bluesky self-labels that mark a post as sensitive, with the warning text shown for each.
+ * LABEL_WARNINGS overrides the text or adds labels; an empty text stops treating a label as
+ * sensitive.
+ */
+export const DEFAULT_LABEL_WARNINGS: Record<string, string> = {
+  porn: "Adult content",
+  sexual: "Sexually suggestive",
+  nudity: "Nudity",
+  "graphic-media": "Graphic media"
+};
+
+const labelWarnings: Record<string, string> = Object.fromEntries(
+  Object.entries({ ...DEFAULT_LABEL_WARNINGS, ...env.labelWarnings }).filter(([, text]) => text)
+);
+
+/** The post's self-labels that call for a content warning, in label order. */
+export function sensitiveLabels(post: CrossPost): string[] {
+  return (post.labels ?? []).filter((label) => label in labelWarnings);
+}
+
+/** Warning text for the post's sensitive labels, e.g. "Nudity, Graphic media", or undefined. */
+export function contentWarningFor(post: CrossPost): string | undefined {
+  const warnings = [...new Set(sensitiveLabels(post).map((label) => labelWarnings[label]))];
+  return warnings.length > 0 ? warnings.join(", ") : undefined;
+}
+
+/** The first of the post's labels that the target is configured to skip. */
+export function findSkippedLabel(post: CrossPost, skipLabels: string[]): string | undefined {
+  return post.labels?.find((label) => skipLabels.includes(label));
+}
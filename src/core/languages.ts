@@ -0,0 +1,26 @@
+import type { CrossPost } from "./types.js";
+
+/** Primary subtag of a BCP-47 tag, lower-cased: `en-US` → `en`, `pt-BR` → `pt`. */
+export function primaryLanguageSubtag(tag: string): string {
+  return tag.trim().split(/[-_]/)[0].toLowerCase();
+}
+
+/** The post's first language as an ISO 639 code, as Mastodon expects it. */
+export function primaryLanguage(post: CrossPost): string | undefined {
+  const first = post.langs?.[0];
+  return first ? primaryLanguageSubtag(first) || undefined : undefined;
+}
+
+/**
+ * Whether the post may go to a target limited to `languages`. An empty list accepts
+ * everything, and so does a post that declares no language, since nothing is known about it.
+ * Tags match on their primary subtag, so `en` accepts `en-GB`.
+ */
+export function matchesLanguages(post: CrossPost, languages: string[]): boolean {
+  if (languages.length === 0 || !post.langs || post.langs.length === 0) {
+    return true;
+  }
+
+  const wanted = new Set(languages.map(primaryLanguageSubtag));
+  return post.langs.some((lang) => wanted.has(primaryLanguageSubtag(lang)));
+}
@@ -0,0 +1,39 @@
+import { countByCodePoints, trimToLimit } from "./text-splitter.js";
+import type { ExternalEmbed } from "./types.js";
+
+/**
+ * How a target carries a Bluesky link card: `off` leaves the text alone, `url` appends the card
+ * URL when the text lacks it (Mastodon and Twitter then build their own preview), `summary`
+ * also adds the card's title and description for clients that do not fetch previews.
+ */
+export const LINK_CARD_POLICIES = ["off", "url", "summary"] as const;
+
+export type LinkCardPolicy = (typeof LINK_CARD_POLICIES)[number];
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+function containsUri(text: string, uri: string): boolean {
+  const bare = uri.replace(/\/$/, "");
+  return text.includes(bare);
+}
+
+export function appendLinkCard(text: string, external: ExternalEmbed | undefined, policy: LinkCardPolicy): string {
+  if (!external || policy === "off") {
+    return text;
+  }
+
+  const missingUri = containsUri(text, external.uri) ? undefined : external.uri;
+  const lines: Array<string | undefined> = [missingUri];
+
+  if (policy === "summary") {
+    const description = external.description?.trim();
+    const trimmed = description ? trimToLimit(description, MAX_DESCRIPTION_LENGTH, countByCodePoints) : undefined;
+    lines.unshift(
+      external.title?.trim(),
+      trimmed && trimmed.length < (description?.length ?? 0) ? `${trimmed}…` : trimmed
+    );
+  }
+
+  const block = lines.filter(Boolean).join("\n");
+  return block ? [text.trim(), block].filter(Boolean).join("\n\n") : text;
+}
@@ -0,0 +1,166 @@
+import type { AtpAgent } from "@atproto/api";
+import { MediaStore } from "./media-store.js";
+import type { CrossPost, MediaAsset, MediaSource, PendingMedia } from "./types.js";
+
+// Twitter's animated GIF limit; larger GIFs are swapped for Tenor's MP4 rendition.
+const MAX_GIF_BYTES = 15 * 1024 * 1024;
+
+function normalizeMimeType(value: string | null | undefined): string | undefined {
+  return value?.split(";")[0].trim().toLowerCase() || undefined;
+}
+
+function inferMimeFromFileName(name: string): string | null {
+  const lower = name.toLowerCase();
+  if (lower.endsWith(".jpg") || lower.endsWith(".jpeg")) {
+    return "image/jpeg";
+  }
+  if (lower.endsWith(".png")) {
+    return "image/png";
+  }
+  if (lower.endsWith(".gif")) {
+    return "image/gif";
+  }
+  if (lower.endsWith(".webp")) {
+    return "image/webp";
+  }
+  if (lower.endsWith(".mp4")) {
+    return "video/mp4";
+  }
+  if (lower.endsWith(".webm")) {
+    return "video/webm";
+  }
+  return null;
+}
+
+function inferMimeFromMagic(data: Buffer): string | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (
+    data.length >= 8 &&
+    data[0] === 0x89 &&
+    data[1] === 0x50 &&
+    data[2] === 0x4e &&
+    data[3] === 0x47
+  ) {
+    return "image/png";
+  }
+  if (data.length >= 6 && data.subarray(0, 6).toString("ascii") === "GIF89a") {
+    return "image/gif";
+  }
+  if (data.length >= 12 && data.subarray(8, 12).toString("ascii") === "WEBP") {
+    return "image/webp";
+  }
+  if (data.length >= 12 && data.subarray(4, 8).toString("ascii") === "ftyp") {
+    return "video/mp4";
+  }
+  return null;
+}
+
+async function fetchBufferFromUrl(url: string): Promise<Buffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download media from ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  return Buffer.from(await response.arrayBuffer());
+}
+
+async function fetchBlob(agent: AtpAgent, did: string, cid: string): Promise<Buffer> {
+  const response = await agent.com.atproto.sync.getBlob({ did, cid });
+
+  const data = (response as any).data;
+  if (data instanceof Uint8Array) {
+    return Buffer.from(data);
+  }
+
+  if (data instanceof ArrayBuffer) {
+    return Buffer.from(data);
+  }
+
+  if (data?.arrayBuffer) {
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  throw new Error(`Unexpected getBlob response for ${cid}`);
+}
+
+/**
+ * Downloads the attachments of queued posts when their jobs run. Each download is cached in
+ * the media store under the attachment's key, so the other targets' jobs read the file the
+ * first one fetched. Errors propagate, so a failed download is retried with the job.
+ */
+export class MediaFetcher {
+  private readonly agent: AtpAgent;
+  private readonly store: MediaStore;
+
+  constructor(params: { agent: AtpAgent; store: MediaStore }) {
+    this.agent = params.agent;
+    this.store = params.store;
+  }
+
+  /** The post with every pending attachment downloaded into `media`, in their original order. */
+  async resolve(post: CrossPost): Promise<CrossPost> {
+    if (!post.pendingMedia || post.pendingMedia.length === 0) {
+      return post;
+    }
+
+    const media = [...(post.media ?? [])];
+    for (const pending of post.pendingMedia) {
+      media.push(await this.fetch(pending));
+    }
+
+    return { ...post, media, pendingMedia: undefined };
+  }
+
+  private async fetch(pending: PendingMedia): Promise<MediaAsset> {
+    const { source } = pending;
+    const data = await this.store.fetchOnce(pending.key, () => this.download(source));
+    const sniffed = inferMimeFromMagic(data);
+
+    if (source.kind === "tenor-gif") {
+      // The cached file is whichever rendition was small enough when it was downloaded.
+      const isGif = sniffed === "image/gif";
+      return {
+        type: isGif ? "image" : "video",
+        data,
+        mimeType: isGif ? "image/gif" : "video/mp4",
+        altText: pending.altText,
+        filename: `${source.slug}.${isGif ? "gif" : "mp4"}`,
+        animated: true
+      };
+    }
+
+    if (source.kind === "video") {
+      const recordMime = normalizeMimeType(source.mimeType);
+      return {
+        type: "video",
+        data,
+        mimeType: recordMime?.startsWith("video/") ? recordMime : sniffed ?? "video/mp4",
+        altText: pending.altText,
+        filename: pending.filename
+      };
+    }
+
+    return {
+      type: "image",
+      data,
+      mimeType: sniffed ?? inferMimeFromFileName(pending.filename ?? "") ?? "image/jpeg",
+      altText: pending.altText,
+      filename: pending.filename
+    };
+  }
+
+  private async download(source: MediaSource): Promise<Buffer> {
+    switch (source.kind) {
+      case "image":
+        return fetchBufferFromUrl(source.url);
+      case "video":
+        return fetchBlob(this.agent, source.did, source.cid);
+      case "tenor-gif": {
+        const gif = await fetchBufferFromUrl(source.gifUrl);
+        return gif.byteLength <= MAX_GIF_BYTES ? gif : fetchBufferFromUrl(source.mp4Url);
+      }
+    }
+  }
+}
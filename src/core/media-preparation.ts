@@ -0,0 +1,219 @@
+import sharp from "sharp";
+import type { Logger } from "pino";
+import { env } from "../config/env.js";
+import { countByCodePoints, trimToLimit } from "./text-splitter.js";
+import type { MediaAsset } from "./types.js";
+
+/**
+ * What a target accepts per post. Unset limits are not checked; the platform's own answer
+ * (usually an opaque 4xx) is what remains for those.
+ */
+export interface MediaConstraints {
+  /** Attachments per post; further media moves to later posts of the thread. */
+  maxPerPost?: number;
+  /** A video or animated GIF must be the post's only attachment. */
+  videoAlone?: boolean;
+  maxImageBytes?: number;
+  /** Longest side of a still image, in pixels. */
+  maxImageDimension?: number;
+  /** Total pixels of a still image (Mastodon's `image_matrix_limit`). */
+  maxImagePixels?: number;
+  maxAnimatedBytes?: number;
+  maxVideoBytes?: number;
+  maxAltTextLength?: number;
+}
+
+export interface AltTextOverflow {
+  /** 1-based position of the attachment in the post, as in `[alt 2]`. */
+  position: number;
+  altText: string;
+}
+
+export interface PreparedMedia {
+  /** Attachments per post of the thread; the first batch goes with the first post. */
+  batches: MediaAsset[][];
+  /** Full alt texts that were cut to `maxAltTextLength`, for a follow-up reply. */
+  altTextOverflow: AltTextOverflow[];
+}
+
+export interface ThreadEntry {
+  text: string;
+  media: MediaAsset[];
+}
+
+const JPEG_QUALITIES = [85, 75, 65];
+const DOWNSCALE_FACTOR = 0.75;
+const MAX_DOWNSCALE_STEPS = 5;
+
+function isAnimated(media: MediaAsset): boolean {
+  return Boolean(media.animated) || media.mimeType.toLowerCase() === "image/gif";
+}
+
+function withJpegExtension(filename: string | undefined): string | undefined {
+  return filename ? filename.replace(/\.[^./]+$/, "") + ".jpg" : undefined;
+}
+
+/**
+ * Downscales and re-encodes a still image as JPEG until it fits the byte, side and pixel
+ * limits: first within the limits at decreasing quality, then smaller by a quarter per step.
+ */
+async function fitImage(media: MediaAsset, constraints: MediaConstraints): Promise<MediaAsset> {
+  const metadata = await sharp(media.data).metadata();
+  const width = metadata.width ?? 0;
+  const height = metadata.height ?? 0;
+  if ((metadata.pages ?? 1) > 1 || width === 0 || height === 0) {
+    return media;
+  }
+
+  const { maxImageBytes, maxImageDimension, maxImagePixels } = constraints;
+  const tooLarge = maxImageBytes !== undefined && media.data.byteLength > maxImageBytes;
+  const tooWide = maxImageDimension !== undefined && Math.max(width, height) > maxImageDimension;
+  const tooManyPixels = maxImagePixels !== undefined && width * height > maxImagePixels;
+  if (!tooLarge && !tooWide && !tooManyPixels) {
+    return media;
+  }
+
+  let scale = Math.min(
+    1,
+    maxImageDimension ? maxImageDimension / Math.max(width, height) : 1,
+    maxImagePixels ? Math.sqrt(maxImagePixels / (width * height)) : 1
+  );
+
+  for (let step = 0; step <= MAX_DOWNSCALE_STEPS; step += 1) {
+    for (const quality of JPEG_QUALITIES) {
+      const data = await sharp(media.data)
+        .rotate()
+        .resize({
+          width: Math.max(1, Math.floor(width * scale)),
+          height: Math.max(1, Math.floor(height * scale)),
+          fit: "inside"
+        })
+        .flatten({ background: "#ffffff" })
+        .jpeg({ quality, mozjpeg: true })
+        .toBuffer();
+
+      if (maxImageBytes === undefined || data.byteLength <= maxImageBytes) {
+        return { ...media, data, mimeType: "image/jpeg", filename: withJpegExtension(media.filename) };
+      }
+    }
+
+    scale *= DOWNSCALE_FACTOR;
+  }
+
+  throw new Error(`Image of ${media.data.byteLength} bytes could not be reduced below ${maxImageBytes} bytes`);
+}
+
+function exceededByteLimit(media: MediaAsset, constraints: MediaConstraints): number | undefined {
+  const limit =
+    media.type === "video"
+      ? constraints.maxVideoBytes
+      : isAnimated(media)
+        ? constraints.maxAnimatedBytes
+        : undefined;
+  return limit !== undefined && media.data.byteLength > limit ? limit : undefined;
+}
+
+function batchMedia(media: MediaAsset[], constraints: MediaConstraints): MediaAsset[][] {
+  const maxPerPost = constraints.maxPerPost ?? Number.POSITIVE_INFINITY;
+  const batches: MediaAsset[][] = [];
+  let current: MediaAsset[] = [];
+
+  for (const item of media) {
+    const alone = constraints.videoAlone && (item.type === "video" || isAnimated(item));
+    if (current.length > 0 && (alone || current.length >= maxPerPost)) {
+      batches.push(current);
+      current = [];
+    }
+
+    current.push(item);
+    if (alone) {
+      batches.push(current);
+      current = [];
+    }
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+/**
+ * Fits a post's media to a target before upload. Still images are re-encoded to fit; videos
+ * and animated GIFs cannot be shrunk here, so oversized ones are left out with a warning.
+ * Alt text longer than the limit is cut with an ellipsis; unless ALT_TEXT_OVERFLOW is
+ * `truncate`, the full text is returned for a reply. Media is batched per post of the thread.
+ */
+export async function prepareMedia(
+  media: MediaAsset[] | undefined,
+  constraints: MediaConstraints,
+  log: Logger
+): Promise<PreparedMedia> {
+  const prepared: MediaAsset[] = [];
+  const altTextOverflow: AltTextOverflow[] = [];
+
+  for (const item of media ?? []) {
+    const byteLimit = exceededByteLimit(item, constraints);
+    if (byteLimit !== undefined) {
+      log.warn(
+        { mimeType: item.mimeType, bytes: item.data.byteLength, limit: byteLimit },
+        "Media exceeds the target's size limit; posting without it"
+      );
+      continue;
+    }
+
+    let fitted = item.type === "image" && !isAnimated(item) ? await fitImage(item, constraints) : item;
+    if (fitted !== item) {
+      log.debug(
+        { from: item.data.byteLength, to: fitted.data.byteLength, mimeType: fitted.mimeType },
+        "Re-encoded image to fit the target's limits"
+      );
+    }
+
+    const maxAltTextLength = constraints.maxAltTextLength;
+    if (fitted.altText && maxAltTextLength !== undefined && countByCodePoints(fitted.altText) > maxAltTextLength) {
+      const cut = trimToLimit(fitted.altText, maxAltTextLength - 1, countByCodePoints);
+      if (env.ALT_TEXT_OVERFLOW === "reply") {
+        altTextOverflow.push({ position: prepared.length + 1, altText: fitted.altText });
+      }
+      fitted = { ...fitted, altText: `${cut}…` };
+    }
+
+    prepared.push(fitted);
+  }
+
+  return { batches: batchMedia(prepared, constraints), altTextOverflow };
+}
+
+/** The reply text carrying cut alt texts, in the `[alt N]` form Nostr notes use inline. */
+export function altTextOverflowText(overflow: AltTextOverflow[]): string {
+  return overflow.map((entry) => `[alt ${entry.position}] ${entry.altText}`).join("\n\n");
+}
+
+/**
+ * Pairs text chunks with media batches: batch `i` goes with chunk `i`, batches beyond the
+ * text get media-only posts, and the `trailing` chunks (e.g. alt-text overflow) come last.
+ */
+export function layoutThread(chunks: string[], batches: MediaAsset[][], trailing: string[] = []): ThreadEntry[] {
+  const entries: ThreadEntry[] = [];
+  for (let index = 0; index < Math.max(chunks.length, batches.length); index += 1) {
+    entries.push({ text: chunks[index] ?? "", media: batches[index] ?? [] });
+  }
+
+  for (const text of trailing) {
+    entries.push({ text, media: [] });
+  }
+
+  return entries;
+}
+
+/** Splits media ids uploaded in thread order back into one list per entry. */
+export function mediaIdsPerEntry(mediaIds: string[], entries: ThreadEntry[]): string[][] {
+  let offset = 0;
+  return entries.map((entry) => {
+    const ids = mediaIds.slice(offset, offset + entry.media.length);
+    offset += entry.media.length;
+    return ids;
+  });
+}
@@ -0,0 +1,215 @@
+import { createHash, randomUUID } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { Logger } from "pino";
+import { env } from "../config/env.js";
+import { logger } from "../config/logger.js";
+import { AppDatabase } from "./db.js";
+
+// SHA-256 hex digests and blob CIDs.
+const KEY_PATTERN = /^[a-zA-Z0-9]{32,128}$/;
+// Leftovers of writes interrupted by a crash; anything this old is not being written any more.
+const STRAY_FILE_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Media of queued jobs on local disk, one file per SHA-256 of its bytes, so a video fanned
+ * out to three targets is stored once and Redis only carries the hash. Every job that needs
+ * a blob holds a reference in `media_refs`; the file is deleted when the last one is
+ * released. File operations are synchronous like the SQLite calls, so a put and a release
+ * in this process never interleave.
+ *
+ * Media of posts that are only queued, not yet downloaded, is reserved under its blob CID
+ * (or URL hash) instead; the first worker to run downloads it with `fetchOnce` and the jobs
+ * of the other targets read that file.
+ */
+export class MediaStore {
+  private readonly log: Logger;
+  private readonly db: AppDatabase;
+  private readonly dir: string;
+
+  private readonly downloads = new Map<string, Promise<Buffer>>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(params: { db: AppDatabase; dir?: string }) {
+    this.db = params.db;
+    this.dir = params.dir ?? env.MEDIA_DIR;
+    this.log = logger.child({ module: "core/media-store", account: params.db.accountId });
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.dir, key.slice(0, 2), key);
+  }
+
+  private write(key: string, data: Buffer): void {
+    const file = this.pathFor(key);
+    if (fs.existsSync(file)) {
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const temp = `${file}.${randomUUID()}.tmp`;
+    fs.writeFileSync(temp, data);
+    fs.renameSync(temp, file);
+  }
+
+  /** Stores the bytes unless they already are, references them from every holder and returns their hash. */
+  put(data: Buffer, holders: string[]): string {
+    const sha256 = createHash("sha256").update(data).digest("hex");
+    for (const holder of holders) {
+      this.db.addMediaReference(sha256, data.byteLength, holder);
+    }
+
+    this.write(sha256, data);
+    return sha256;
+  }
+
+  async read(key: string): Promise<Buffer> {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid media blob reference: ${key}`);
+    }
+
+    try {
+      return await fs.promises.readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`Media blob ${key} is no longer in the media store`);
+      }
+      throw error;
+    }
+  }
+
+  /** References media under `key` from every holder before it has been downloaded. */
+  reserve(key: string, holders: string[]): void {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid media blob reference: ${key}`);
+    }
+
+    for (const holder of holders) {
+      this.db.reserveMediaReference(key, holder);
+    }
+  }
+
+  /**
+   * The bytes stored under `key`, downloaded first if no job has fetched them yet. Concurrent
+   * calls for one key share a download; a failed download is not cached.
+   */
+  async fetchOnce(key: string, download: () => Promise<Buffer>): Promise<Buffer> {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid media blob reference: ${key}`);
+    }
+
+    const file = this.pathFor(key);
+    if (fs.existsSync(file)) {
+      return fs.promises.readFile(file);
+    }
+
+    let pending = this.downloads.get(key);
+    if (!pending) {
+      pending = download()
+        .then((data) => {
+          this.write(key, data);
+          this.db.recordMediaBlob(key, data.byteLength);
+          return data;
+        })
+        .finally(() => {
+          this.downloads.delete(key);
+        });
+      this.downloads.set(key, pending);
+    }
+
+    return pending;
+  }
+
+  /** Drops the holder's references and deletes the blobs no job needs any more. */
+  release(holder: string): void {
+    for (const sha256 of this.db.releaseMediaReferences(holder)) {
+      this.remove(sha256);
+    }
+  }
+
+  private remove(sha256: string): void {
+    fs.rmSync(this.pathFor(sha256), { force: true });
+    this.db.deleteMediaBlob(sha256);
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.collectGarbage();
+    }, env.MEDIA_GC_INTERVAL_MS);
+
+    this.collectGarbage();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Expires references older than MEDIA_REF_TTL_MS, which belong to jobs removed from Redis
+   * without reaching a worker, then deletes unreferenced blobs and stray files.
+   */
+  collectGarbage(): void {
+    try {
+      const expiredReferences = this.db.expireMediaReferences(
+        new Date(Date.now() - env.MEDIA_REF_TTL_MS).toISOString()
+      );
+      const unreferenced = this.db.listUnreferencedMediaBlobs();
+      for (const sha256 of unreferenced) {
+        this.remove(sha256);
+      }
+      const strayFiles = this.removeStrayFiles();
+
+      if (expiredReferences > 0 || unreferenced.length > 0 || strayFiles > 0) {
+        this.log.info(
+          { expiredReferences, deletedBlobs: unreferenced.length, strayFiles },
+          "Collected unused media blobs"
+        );
+      }
+    } catch (error) {
+      this.log.error(
+        {
+          error: error instanceof Error ? error.message : String(error)
+        },
+        "Media garbage collection failed"
+      );
+    }
+  }
+
+  /** Files the database does not know, e.g. temp files of interrupted writes. */
+  private removeStrayFiles(): number {
+    if (!fs.existsSync(this.dir)) {
+      return 0;
+    }
+
+    const cutoff = Date.now() - STRAY_FILE_GRACE_MS;
+    let removed = 0;
+
+    for (const prefix of fs.readdirSync(this.dir)) {
+      const prefixDir = path.join(this.dir, prefix);
+      if (!fs.statSync(prefixDir).isDirectory()) {
+        continue;
+      }
+
+      for (const name of fs.readdirSync(prefixDir)) {
+        if (KEY_PATTERN.test(name) && this.db.hasMediaBlob(name)) {
+          continue;
+        }
+
+        const file = path.join(prefixDir, name);
+        if (fs.statSync(file).mtimeMs < cutoff) {
+          fs.rmSync(file, { force: true });
+          removed += 1;
+        }
+      }
+    }
+
+    return removed;
+  }
+}
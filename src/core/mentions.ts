@@ -0,0 +1,208 @@
+import type { AtpAgent } from "@atproto/api";
+import { nip19 } from "nostr-tools";
+import type { Logger } from "pino";
+import { env } from "../config/env.js";
+import { logger } from "../config/logger.js";
+import { AppDatabase } from "./db.js";
+import type { CrossPost, MentionMapping } from "./types.js";
+
+export type MentionPlatform = "mastodon" | "twitter" | "nostr";
+
+export type MentionIdentities = Pick<MentionMapping, "mastodon" | "twitter" | "nostr">;
+
+const MASTODON_ADDRESS_PATTERN = /(?:^|[\s(])@([\w.-]+)@([a-z0-9-]+(?:\.[a-z0-9-]+)+)/i;
+const MASTODON_URL_PATTERN = /https?:\/\/([a-z0-9-]+(?:\.[a-z0-9-]+)+)\/@([\w.-]+)(?![\w.@-])/i;
+const TWITTER_URL_PATTERN = /(?:https?:\/\/)?(?:www\.|mobile\.)?(?:twitter|x)\.com\/@?(\w{1,15})(?!\w)/i;
+const NPUB_PATTERN = /\bnpub1[02-9ac-hj-np-z]{58}\b/;
+
+// Hosts whose `/@user` URLs are not fediverse accounts.
+const NON_MASTODON_HOSTS = new Set(["twitter.com", "x.com", "bsky.app", "medium.com", "youtube.com", "tiktok.com"]);
+const TWITTER_RESERVED_PATHS = new Set(["i", "home", "intent", "share", "search", "hashtag", "explore", "settings"]);
+
+function isNpub(value: string): boolean {
+  try {
+    return nip19.decode(value).type === "npub";
+  } catch {
+    return false;
+  }
+}
+
+/** Twitter screen name, Mastodon address or npub as written by hand, normalized for storage. */
+export function normalizeMentionIdentity(platform: MentionPlatform, value: string): string {
+  const trimmed = value.trim();
+  if (platform === "mastodon") {
+    const address = trimmed.replace(/^@/, "");
+    if (!/^[\w.-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)+$/i.test(address)) {
+      throw new Error(`Mastodon mention must look like @user@instance, got "${value}"`);
+    }
+    return address;
+  }
+
+  if (platform === "twitter") {
+    const screenName = trimmed.replace(/^@/, "");
+    if (!/^\w{1,15}$/.test(screenName)) {
+      throw new Error(`Twitter mention must be a screen name, got "${value}"`);
+    }
+    return screenName;
+  }
+
+  const npub = trimmed.replace(/^nostr:/, "");
+  if (!isNpub(npub)) {
+    throw new Error(`Nostr mention must be an npub, got "${value}"`);
+  }
+  return npub;
+}
+
+/**
+ * Finds the other identities people commonly list on their Bluesky profile: a fediverse
+ * address or profile URL, a twitter.com/x.com link and an npub.
+ */
+export function parseProfileIdentities(text: string): MentionIdentities {
+  const identities: MentionIdentities = {};
+
+  const address = text.match(MASTODON_ADDRESS_PATTERN);
+  const profileUrl = text.match(MASTODON_URL_PATTERN);
+  if (address && !NON_MASTODON_HOSTS.has(address[2].toLowerCase())) {
+    identities.mastodon = `${address[1]}@${address[2]}`;
+  } else if (profileUrl && !NON_MASTODON_HOSTS.has(profileUrl[1].toLowerCase().replace(/^www\./, ""))) {
+    identities.mastodon = `${profileUrl[2]}@${profileUrl[1]}`;
+  }
+
+  const twitter = text.match(TWITTER_URL_PATTERN);
+  if (twitter && !TWITTER_RESERVED_PATHS.has(twitter[1].toLowerCase())) {
+    identities.twitter = twitter[1];
+  }
+
+  const npub = text.match(NPUB_PATTERN)?.[0];
+  if (npub && isNpub(npub)) {
+    identities.nostr = npub;
+  }
+
+  return identities;
+}
+
+/** DIDs mentioned in the post and in the post it quotes. */
+export function mentionedDids(post: CrossPost): string[] {
+  const dids = new Set<string>();
+  for (const facet of [...(post.facets ?? []), ...(post.quote?.facets ?? [])]) {
+    for (const feature of facet.features) {
+      if (feature.type === "mention") {
+        dids.add(feature.did);
+      }
+    }
+  }
+
+  return [...dids];
+}
+
+function blueskyProfileUrl(did: string, spanText: string): string {
+  const handle = spanText.replace(/^@/, "").trim();
+  return `https://bsky.app/profile/${handle && !/\s/.test(handle) ? handle : did}`;
+}
+
+/**
+ * Renders a mention facet for a platform: the mapped identity when one is known, otherwise
+ * MENTION_FALLBACK (`keep` the Bluesky text, a bsky.app profile `url`, or both as `handle-url`).
+ */
+export function createMentionRenderer(
+  db: AppDatabase,
+  platform: MentionPlatform
+): (did: string, spanText: string) => string {
+  return (did, spanText) => {
+    const identity = db.getMentionMapping(did)?.[platform];
+    if (identity) {
+      return platform === "nostr" ? `nostr:${identity}` : `@${identity}`;
+    }
+
+    switch (env.MENTION_FALLBACK) {
+      case "url":
+        return blueskyProfileUrl(did, spanText);
+      case "handle-url":
+        return `${spanText} (${blueskyProfileUrl(did, spanText)})`;
+      default:
+        return spanText;
+    }
+  };
+}
+
+/** Hex pubkeys of mentioned people with a known npub, for NIP-27 `p` tags. */
+export function mentionedNostrPubkeys(db: AppDatabase, post: CrossPost): string[] {
+  const pubkeys: string[] = [];
+  for (const did of mentionedDids(post)) {
+    const npub = db.getMentionMapping(did)?.nostr;
+    if (!npub) {
+      continue;
+    }
+
+    const decoded = nip19.decode(npub);
+    if (decoded.type === "npub") {
+      pubkeys.push(decoded.data);
+    }
+  }
+
+  return pubkeys;
+}
+
+/**
+ * Fills `mention_mappings` from the profiles of mentioned accounts. Results, including
+ * finding nothing, are kept for MENTION_DISCOVERY_TTL_MS; manual mappings are never replaced.
+ */
+export class MentionDiscovery {
+  private readonly log: Logger;
+  private readonly db: AppDatabase;
+  private readonly agent: AtpAgent;
+
+  constructor(params: { db: AppDatabase; agent: AtpAgent }) {
+    this.db = params.db;
+    this.agent = params.agent;
+    this.log = logger.child({ module: "core/mentions", account: params.db.accountId });
+  }
+
+  private isFresh(mapping: MentionMapping | null): boolean {
+    if (!mapping) {
+      return false;
+    }
+
+    if (mapping.source === "manual") {
+      return true;
+    }
+
+    return Boolean(mapping.checkedAt && Date.now() - Date.parse(mapping.checkedAt) < env.MENTION_DISCOVERY_TTL_MS);
+  }
+
+  async discover(post: CrossPost): Promise<void> {
+    for (const did of mentionedDids(post)) {
+      if (this.isFresh(this.db.getMentionMapping(did))) {
+        continue;
+      }
+
+      try {
+        await this.discoverDid(did);
+      } catch (error) {
+        this.log.warn(
+          {
+            did,
+            error: error instanceof Error ? error.message : String(error)
+          },
+          "Mention discovery failed; keeping the fallback for now"
+        );
+      }
+    }
+  }
+
+  async discoverDid(did: string): Promise<MentionMapping> {
+    const { data: profile } = await this.agent.getProfile({ actor: did });
+    const identities = parseProfileIdentities([profile.description, profile.website].filter(Boolean).join("\n"));
+    const mapping: MentionMapping = {
+      did,
+      handle: profile.handle,
+      ...identities,
+      source: "discovered",
+      checkedAt: new Date().toISOString()
+    };
+
+    this.db.saveMentionMapping(mapping);
+    this.log.debug({ did, handle: profile.handle, ...identities }, "Discovered mention mapping");
+    return mapping;
+  }
+}
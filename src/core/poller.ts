@@ -1,32 +1,49 @@
+import type { Logger } from "pino";
 import { env } from "../config/env.js";
 import { logger } from "../config/logger.js";
 import { BlueskySourceAdapter } from "../adapters/bluesky.js";
 import { AppDatabase } from "./db.js";
 import { QueueManager } from "./queue.js";
-import type { PlatformName } from "./types.js";
+import type { CrossPost, TargetKey } from "./types.js";
+import type { TargetInstance } from "../config/accounts.js";
 import { normalizeFeedPost } from "./post-normalizer.js";
+import { sendAlert } from "./alerts.js";
+import { budgetWindowStart } from "./budget.js";
+import { MentionDiscovery } from "./mentions.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class BlueskyPoller {
-  private readonly log = logger.child({ module: "core/poller" });
+  private readonly log: Logger;
   private readonly source: BlueskySourceAdapter;
   private readonly db: AppDatabase;
   private readonly queueManager: QueueManager;
-  private readonly targetPlatforms: PlatformName[];
+  private readonly targets: TargetInstance[];
+  private readonly targetKeys: TargetKey[];
+  private readonly mentionDiscovery: MentionDiscovery | null;
 
   private timer: NodeJS.Timeout | null = null;
   private running = false;
+  private streamingActive = false;
+  private feedPollRequested = false;
   private lastDeletionSyncAt = 0;
+  private lastCatchUpAt = 0;
 
   constructor(params: {
     source: BlueskySourceAdapter;
     db: AppDatabase;
     queueManager: QueueManager;
-    targetPlatforms: PlatformName[];
+    targets: TargetInstance[];
   }) {
     this.source = params.source;
     this.db = params.db;
     this.queueManager = params.queueManager;
-    this.targetPlatforms = params.targetPlatforms;
+    this.targets = params.targets;
+    this.targetKeys = params.targets.map((target) => target.key);
+    this.mentionDiscovery = env.MENTION_DISCOVERY
+      ? new MentionDiscovery({ db: params.db, agent: params.source.agent })
+      : null;
+    this.log = logger.child({ module: "core/poller", account: params.db.accountId });
   }
 
   start(): void {
@@ -37,7 +54,7 @@ export class BlueskyPoller {
     this.log.info(
       {
         intervalMs: env.BLUESKY_POLL_INTERVAL_MS,
-        targets: this.targetPlatforms
+        targets: this.targetKeys
       },
       "Starting Bluesky poller"
     );
@@ -56,41 +73,172 @@ export class BlueskyPoller {
     }
   }
 
-  private async poll(): Promise<void> {
-    if (this.running) {
+  /**
+   * While a streaming source is connected it delivers new posts, so polling only keeps
+   * running the periodic deletion sync. Polling the feed resumes as soon as it disconnects.
+   */
+  setStreamingActive(active: boolean): void {
+    if (this.streamingActive === active) {
       return;
     }
 
-    this.running = true;
-    try {
-      const feed = await this.source.fetchRecentOwnPosts();
-      const ordered = [...feed].reverse();
+    this.streamingActive = active;
+    this.log.info(
+      { streamingActive: active },
+      active ? "Streaming source connected; pausing feed polling" : "Streaming source unavailable; polling feed"
+    );
+  }
 
-      for (const feedItem of ordered) {
-        const normalized = await normalizeFeedPost({
-          feedItem,
-          agent: this.source.agent
-        });
+  /** Polls the feed on the next tick even while streaming, for posts the stream could not deliver. */
+  requestFeedPoll(): void {
+    this.feedPollRequested = true;
+  }
 
-        if (!normalized) {
-          continue;
-        }
+  /**
+   * Normalizes and enqueues feed items that have not been seen before. Items must be
+   * ordered oldest-first so reply parents are queued ahead of their children. Historic
+   * items (backfill) pass `withGracePeriod: false`; there is no edit window left to wait out.
+   */
+  async ingestFeedItems(feedItems: any[], options: { withGracePeriod?: boolean } = {}): Promise<void> {
+    for (const feedItem of feedItems) {
+      const sourceUri = feedItem?.post?.uri;
+      if (typeof sourceUri !== "string") {
+        continue;
+      }
 
-        if (this.db.hasSeenSourcePost(normalized.sourceUri)) {
-          continue;
+      if (this.db.hasSeenSourcePost(sourceUri)) {
+        const knownCid = this.db.getActiveSourcePostCid(sourceUri);
+        if (knownCid && typeof feedItem.post.cid === "string" && feedItem.post.cid !== knownCid) {
+          await this.handleEditedSourcePost(feedItem);
         }
+        continue;
+      }
+
+      const normalized = await this.normalize(feedItem);
 
-        await this.queueManager.enqueuePost(normalized, this.targetPlatforms);
-        this.db.markSourcePostSeen(normalized.sourceUri, normalized.sourceCid, normalized.createdAt);
-        this.log.info(
-          {
-            sourceUri: normalized.sourceUri,
-            targets: this.targetPlatforms,
-            mediaCount: normalized.media?.length ?? 0,
-            isReply: Boolean(normalized.reply)
-          },
-          "Queued cross-post jobs for new Bluesky post"
-        );
+      if (!normalized) {
+        continue;
+      }
+
+      await this.enqueuePost(normalized, this.targetKeys, { withGracePeriod: options.withGracePeriod ?? true });
+      this.db.markSourcePostSeen(normalized.sourceUri, normalized.sourceCid, normalized.createdAt);
+      this.log.info(
+        {
+          sourceUri: normalized.sourceUri,
+          targets: this.targetKeys,
+          mediaCount: normalized.pendingMedia?.length ?? 0,
+          isReply: Boolean(normalized.reply)
+        },
+        "Queued cross-post jobs for new Bluesky post"
+      );
+    }
+  }
+
+  /** Normalizes a feed item and, with MENTION_DISCOVERY, maps its mentions before jobs are queued. */
+  private async normalize(feedItem: any): Promise<CrossPost | null> {
+    const normalized = normalizeFeedPost({ feedItem });
+    if (normalized && this.mentionDiscovery) {
+      await this.mentionDiscovery.discover(normalized);
+    }
+
+    return normalized;
+  }
+
+  private async enqueuePost(
+    post: CrossPost,
+    targets: TargetKey[],
+    options: { withGracePeriod?: boolean } = {}
+  ): Promise<void> {
+    await this.queueManager.enqueuePost(post, targets, options);
+    for (const target of targets) {
+      this.db.recordPlatformQueued({ uri: post.sourceUri, platform: target });
+    }
+  }
+
+  /**
+   * A changed CID on a tracked post means the record was rewritten in place (an edit).
+   * Jobs that have not started are swapped for the new content; copies that were already
+   * published, or are being published right now, get an edit job.
+   */
+  private async handleEditedSourcePost(feedItem: any): Promise<void> {
+    const normalized = await this.normalize(feedItem);
+
+    if (!normalized) {
+      return;
+    }
+
+    this.db.updateSourcePostCid(normalized.sourceUri, normalized.sourceCid);
+
+    const requeued = await this.queueManager.cancelPendingPosts(normalized.sourceUri, this.targetKeys);
+    if (requeued.length > 0) {
+      await this.queueManager.enqueuePost(normalized, requeued, { withGracePeriod: true });
+    }
+
+    const withRemotePost = this.configuredTargetsWithRemotePost(normalized.sourceUri);
+    // An active job publishes the old text; its edit job waits until that copy exists.
+    const publishing = await this.queueManager.findActivePosts(
+      normalized.sourceUri,
+      this.targetKeys.filter((target) => !withRemotePost.includes(target) && !requeued.includes(target))
+    );
+    const published = [...withRemotePost, ...publishing];
+    if (published.length > 0) {
+      await this.queueManager.enqueueEdit(normalized, published);
+    }
+
+    this.log.info(
+      {
+        sourceUri: normalized.sourceUri,
+        sourceCid: normalized.sourceCid,
+        requeued,
+        edited: published
+      },
+      "Detected edited Bluesky post"
+    );
+  }
+
+  /** Targets removed from the configuration since publishing have no queue to follow up on. */
+  private configuredTargetsWithRemotePost(sourceUri: string): TargetKey[] {
+    return this.db.getPlatformsWithRemoteIds(sourceUri).filter((target) => this.targetKeys.includes(target));
+  }
+
+  async handleDeletedSourcePost(sourceUri: string): Promise<void> {
+    if (!this.db.isSourcePostActive(sourceUri)) {
+      return;
+    }
+
+    const cancelledTargets = await this.queueManager.cancelPendingPosts(sourceUri, this.targetKeys);
+    for (const target of cancelledTargets) {
+      this.db.recordPlatformCancelled({ uri: sourceUri, platform: target });
+    }
+
+    const platformsWithRemotePost = this.configuredTargetsWithRemotePost(sourceUri);
+    if (platformsWithRemotePost.length > 0) {
+      await this.queueManager.enqueueDelete(sourceUri, platformsWithRemotePost);
+    }
+
+    this.db.markSourcePostDeleted(sourceUri);
+    this.db.resolveSuspectedDeletion(sourceUri);
+    this.log.info(
+      {
+        sourceUri,
+        cancelled: cancelledTargets,
+        targets: platformsWithRemotePost
+      },
+      "Detected deleted Bluesky post and queued deletion sync"
+    );
+  }
+
+  private async poll(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      if (!this.streamingActive || this.feedPollRequested) {
+        const feed = await this.source.fetchRecentOwnPosts();
+        await this.ingestFeedItems([...feed].reverse());
+        this.feedPollRequested = false;
       }
 
       const now = Date.now();
@@ -98,6 +246,11 @@ export class BlueskyPoller {
         await this.syncDeletedPosts();
         this.lastDeletionSyncAt = now;
       }
+
+      if (env.CATCHUP_ENABLED && now - this.lastCatchUpAt >= env.CATCHUP_INTERVAL_MS) {
+        await this.runCatchUp();
+        this.lastCatchUpAt = now;
+      }
     } catch (error) {
       this.log.error(
         {
@@ -110,24 +263,148 @@ export class BlueskyPoller {
     }
   }
 
+  /**
+   * Checks one batch of tracked posts against the appview with getPosts. A post can be
+   * missing for reasons other than deletion (indexing lag, appview outage), so every
+   * candidate is confirmed with getRecord and oversized runs are refused outright.
+   */
   private async syncDeletedPosts(): Promise<void> {
-    const currentUris = await this.source.fetchCurrentPostUris();
-    const knownUris = this.db.listActiveSourceUris();
-    const deletedUris = knownUris.filter((uri) => !currentUris.has(uri));
-
-    for (const sourceUri of deletedUris) {
-      const platformsWithRemotePost = this.db.getPlatformsWithRemoteIds(sourceUri);
-      if (platformsWithRemotePost.length > 0) {
-        await this.queueManager.enqueueDelete(sourceUri, platformsWithRemotePost);
+    const batch = this.db.listSourceUrisForDeletionCheck({
+      recentSince: new Date(Date.now() - env.BLUESKY_DELETE_SYNC_RECENT_HOURS * 60 * 60 * 1000).toISOString(),
+      limit: env.BLUESKY_DELETE_SYNC_BATCH_SIZE
+    });
+
+    if (batch.length === 0) {
+      return;
+    }
+
+    const guardStateKey = `deletion_guard_tripped:${this.db.accountId}`;
+    const existingUris = await this.source.fetchExistingPostUris(batch);
+    const candidates = batch.filter((uri) => !existingUris.has(uri));
+
+    if (candidates.length === 0) {
+      this.db.markSourcePostsChecked(batch);
+      this.db.setSyncState(guardStateKey, "");
+      return;
+    }
+
+    const percent = (candidates.length / batch.length) * 100;
+    if (
+      candidates.length > env.BLUESKY_DELETE_SYNC_MAX_DELETIONS ||
+      (candidates.length > 1 && percent > env.BLUESKY_DELETE_SYNC_MAX_PERCENT)
+    ) {
+      for (const uri of candidates) {
+        this.db.recordSuspectedDeletion(uri, "mass-deletion guard");
+      }
+
+      // The rotation moves on to the next batch; the suspects stay recorded for review.
+      this.db.markSourcePostsChecked(batch);
+      this.log.warn(
+        { candidates: candidates.length, checked: batch.length },
+        "Too many tracked posts missing on Bluesky; not deleting this batch"
+      );
+
+      // Alert once until a batch passes the guard again, not on every run.
+      if (this.db.getSyncState(guardStateKey)) {
+        return;
+      }
+
+      this.db.setSyncState(guardStateKey, new Date().toISOString());
+      await sendAlert("Deletion sync aborted: too many tracked posts missing on Bluesky", {
+        candidates: candidates.length,
+        checked: batch.length,
+        percent: Math.round(percent * 10) / 10,
+        maxDeletions: env.BLUESKY_DELETE_SYNC_MAX_DELETIONS,
+        maxPercent: env.BLUESKY_DELETE_SYNC_MAX_PERCENT
+      });
+      return;
+    }
+
+    for (const sourceUri of candidates) {
+      const existence = await this.source.checkPostExists(sourceUri);
+
+      if (existence === "deleted") {
+        await this.handleDeletedSourcePost(sourceUri);
+      } else if (existence === "unknown") {
+        this.db.recordSuspectedDeletion(sourceUri, "deletion could not be confirmed");
+      } else {
+        this.db.resolveSuspectedDeletion(sourceUri);
+        this.log.warn({ sourceUri }, "Post missing from appview still exists; not deleting");
+      }
+    }
+
+    this.db.markSourcePostsChecked(batch);
+    this.db.setSyncState(guardStateKey, "");
+  }
+
+  /**
+   * Catch-up for targets with a daily limit is capped by what is left of the rolling 24h
+   * budget after jobs that are already waiting, so a backlog never starves fresh posts.
+   */
+  private async remainingDailyBudget(target: TargetInstance, dailyLimit: number): Promise<number> {
+    const used = this.db.countTargetPostsSince(target.key, budgetWindowStart());
+    const pending = await this.queueManager.countPendingJobs(target.key);
+    return Math.max(0, dailyLimit - used - pending);
+  }
+
+  /**
+   * Queues known posts for target platforms that never received them, e.g. a platform that
+   * was enabled after the posts were first syndicated elsewhere.
+   */
+  private async runCatchUp(): Promise<void> {
+    const createdAfter = new Date(Date.now() - env.CATCHUP_LOOKBACK_DAYS * DAY_MS).toISOString();
+    const candidates = new Map<string, { createdAt: string; targets: TargetKey[] }>();
+
+    for (const target of this.targets) {
+      const limit =
+        target.dailyLimit !== undefined
+          ? Math.min(env.CATCHUP_BATCH_SIZE, await this.remainingDailyBudget(target, target.dailyLimit))
+          : env.CATCHUP_BATCH_SIZE;
+
+      if (limit <= 0) {
+        this.log.debug({ target: target.key }, "Skipping catch-up; no budget left for this target in the current window");
+        continue;
+      }
+
+      for (const row of this.db.listPostsMissingPlatform(target.key, createdAfter, limit)) {
+        const entry = candidates.get(row.uri) ?? { createdAt: row.createdAt, targets: [] };
+        entry.targets.push(target.key);
+        candidates.set(row.uri, entry);
+      }
+    }
+
+    if (candidates.size === 0) {
+      return;
+    }
+
+    const ordered = [...candidates.entries()].sort(([, a], [, b]) => a.createdAt.localeCompare(b.createdAt));
+    const feedItems = await this.source.fetchOwnPostsByUri(ordered.map(([uri]) => uri));
+    const feedItemsByUri = new Map(feedItems.map((item) => [item.post.uri as string, item]));
+
+    for (const [sourceUri, { targets }] of ordered) {
+      const feedItem = feedItemsByUri.get(sourceUri);
+      const normalized = feedItem
+        ? await this.normalize(feedItem)
+        : null;
+
+      if (!normalized) {
+        for (const target of targets) {
+          this.db.recordPlatformFailure({
+            uri: sourceUri,
+            platform: target,
+            error: "Catch-up skipped: source post is no longer available"
+          });
+        }
+        continue;
       }
 
-      this.db.markSourcePostDeleted(sourceUri);
+      await this.enqueuePost(normalized, targets);
       this.log.info(
         {
           sourceUri,
-          targets: platformsWithRemotePost
+          targets
         },
-        "Detected deleted Bluesky post and queued deletion sync"
+        "Queued catch-up cross-post jobs for previously syndicated Bluesky post"
       );
     }
   }
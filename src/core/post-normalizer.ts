@@ -1,60 +1,40 @@
-import type { AtpAgent } from "@atproto/api";
-import type { CrossPost, MediaAsset, QuoteMetadata } from "./types.js";
-
-function normalizeMimeType(value: string | null | undefined): string {
-  if (!value) {
-    return "application/octet-stream";
-  }
+import { createHash } from "node:crypto";
+import type {
+  CrossPost,
+  ExternalEmbed,
+  PendingMedia,
+  QuoteMetadata,
+  RichTextFacet,
+  RichTextFeature
+} from "./types.js";
+
+function extractFacets(record: any): RichTextFacet[] {
+  const facets: RichTextFacet[] = [];
+
+  for (const facet of Array.isArray(record?.facets) ? record.facets : []) {
+    const byteStart = facet?.index?.byteStart;
+    const byteEnd = facet?.index?.byteEnd;
+    if (!Number.isInteger(byteStart) || !Number.isInteger(byteEnd) || byteStart >= byteEnd) {
+      continue;
+    }
 
-  return value.split(";")[0].trim().toLowerCase() || "application/octet-stream";
-}
+    const features: RichTextFeature[] = [];
+    for (const feature of Array.isArray(facet?.features) ? facet.features : []) {
+      if (feature?.$type === "app.bsky.richtext.facet#link" && typeof feature?.uri === "string") {
+        features.push({ type: "link", uri: feature.uri });
+      } else if (feature?.$type === "app.bsky.richtext.facet#tag" && typeof feature?.tag === "string") {
+        features.push({ type: "tag", tag: feature.tag });
+      } else if (feature?.$type === "app.bsky.richtext.facet#mention" && typeof feature?.did === "string") {
+        features.push({ type: "mention", did: feature.did });
+      }
+    }
 
-function inferMimeFromFileName(name: string): string | null {
-  const lower = name.toLowerCase();
-  if (lower.endsWith(".jpg") || lower.endsWith(".jpeg")) {
-    return "image/jpeg";
-  }
-  if (lower.endsWith(".png")) {
-    return "image/png";
-  }
-  if (lower.endsWith(".gif")) {
-    return "image/gif";
-  }
-  if (lower.endsWith(".webp")) {
-    return "image/webp";
-  }
-  if (lower.endsWith(".mp4")) {
-    return "video/mp4";
-  }
-  if (lower.endsWith(".webm")) {
-    return "video/webm";
+    if (features.length > 0) {
+      facets.push({ byteStart, byteEnd, features });
+    }
   }
-  return null;
-}
 
-function inferMimeFromMagic(data: Buffer): string | null {
-  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
-    return "image/jpeg";
-  }
-  if (
-    data.length >= 8 &&
-    data[0] === 0x89 &&
-    data[1] === 0x50 &&
-    data[2] === 0x4e &&
-    data[3] === 0x47
-  ) {
-    return "image/png";
-  }
-  if (data.length >= 6 && data.subarray(0, 6).toString("ascii") === "GIF89a") {
-    return "image/gif";
-  }
-  if (data.length >= 12 && data.subarray(8, 12).toString("ascii") === "WEBP") {
-    return "image/webp";
-  }
-  if (data.length >= 12 && data.subarray(4, 8).toString("ascii") === "ftyp") {
-    return "video/mp4";
-  }
-  return null;
+  return facets;
 }
 
 function extractQuoteMetadata(embed: any): QuoteMetadata | undefined {
@@ -71,6 +51,7 @@ function extractQuoteMetadata(embed: any): QuoteMetadata | undefined {
 
   const value = recordView?.value;
   const text = typeof value?.text === "string" ? value.text : "[Quoted post]";
+  const facets = typeof value?.text === "string" ? extractFacets(value) : [];
   const createdAt =
     typeof value?.createdAt === "string"
       ? value.createdAt
@@ -82,22 +63,26 @@ function extractQuoteMetadata(embed: any): QuoteMetadata | undefined {
     uri: recordView.uri,
     cid: typeof recordView?.cid === "string" ? recordView.cid : undefined,
     text,
+    facets: facets.length > 0 ? facets : undefined,
     createdAt,
     authorDid: typeof recordView?.author?.did === "string" ? recordView.author.did : undefined
   };
 }
 
-async function fetchBufferFromUrl(url: string): Promise<{ data: Buffer; mimeType: string }> {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to download media from ${url}: ${response.status} ${response.statusText}`);
+/** The link card, directly embedded or as the media part of a quote post. */
+function extractExternalEmbed(embed: any): ExternalEmbed | undefined {
+  const view = embed?.$type === "app.bsky.embed.recordWithMedia#view" ? embed?.media : embed;
+  const external = view?.$type === "app.bsky.embed.external#view" ? view?.external : undefined;
+  if (typeof external?.uri !== "string") {
+    return undefined;
   }
 
-  const mimeType = normalizeMimeType(response.headers.get("content-type"));
-  const arrayBuffer = await response.arrayBuffer();
   return {
-    data: Buffer.from(arrayBuffer),
-    mimeType
+    uri: external.uri,
+    title: typeof external.title === "string" && external.title.trim() ? external.title : undefined,
+    description:
+      typeof external.description === "string" && external.description.trim() ? external.description : undefined,
+    thumbUrl: typeof external.thumb === "string" ? external.thumb : undefined
   };
 }
 
@@ -114,13 +99,29 @@ function extractLinks(record: any, embed: any): string[] {
     }
   }
 
-  if (embed?.$type === "app.bsky.embed.external#view" && typeof embed?.external?.uri === "string") {
-    links.add(embed.external.uri);
+  const external = extractExternalEmbed(embed);
+  if (external) {
+    links.add(external.uri);
   }
 
   return Array.from(links);
 }
 
+/** Values of the record's `com.atproto.label.defs#selfLabels`. */
+function extractSelfLabels(record: any): string[] {
+  const values = Array.isArray(record?.labels?.values) ? record.labels.values : [];
+  const labels = values
+    .map((item: any) => (typeof item?.val === "string" ? item.val : undefined))
+    .filter((item: string | undefined): item is string => Boolean(item));
+
+  return [...new Set<string>(labels)];
+}
+
+function extractLangs(record: any): string[] {
+  const langs = Array.isArray(record?.langs) ? record.langs : [];
+  return langs.filter((item: unknown): item is string => typeof item === "string" && item.trim() !== "");
+}
+
 function blobRefToCid(blobRef: any): string | undefined {
   if (!blobRef) {
     return undefined;
@@ -130,14 +131,15 @@ function blobRefToCid(blobRef: any): string | undefined {
     return blobRef;
   }
 
-  if (typeof blobRef?.ref?.toString === "function") {
-    return blobRef.ref.toString();
-  }
-
+  // JSON blob refs are plain objects, whose toString would give "[object Object]".
   if (typeof blobRef?.ref?.$link === "string") {
     return blobRef.ref.$link;
   }
 
+  if (typeof blobRef?.ref?.toString === "function") {
+    return blobRef.ref.toString();
+  }
+
   if (typeof blobRef?.$link === "string") {
     return blobRef.$link;
   }
@@ -145,39 +147,55 @@ function blobRefToCid(blobRef: any): string | undefined {
   return undefined;
 }
 
-async function fetchBlobFromRecord(params: {
-  agent: AtpAgent;
-  did: string;
-  cid: string;
-}): Promise<Buffer | null> {
+// Tenor media IDs end in a format code: AAAAC is the full GIF, AAAPo its MP4 rendition.
+const TENOR_GIF_PATH = /^\/([\w-]+)AAAAC\/([^/]+)\.gif$/i;
+
+/** GIFs picked in the Bluesky app are link cards to media.tenor.com with `hh`/`ww` size hints. */
+function parseTenorGifUrl(uri: string): { gifUrl: string; mp4Url: string; slug: string } | undefined {
+  let url: URL;
   try {
-    const response = await params.agent.com.atproto.sync.getBlob({
-      did: params.did,
-      cid: params.cid
-    });
-
-    const data = (response as any).data;
-    if (data instanceof Uint8Array) {
-      return Buffer.from(data);
-    }
+    url = new URL(uri);
+  } catch {
+    return undefined;
+  }
 
-    if (data instanceof ArrayBuffer) {
-      return Buffer.from(data);
-    }
+  const match = url.hostname === "media.tenor.com" ? url.pathname.match(TENOR_GIF_PATH) : null;
+  if (!match) {
+    return undefined;
+  }
 
-    if (data?.arrayBuffer) {
-      const arrayBuffer = await data.arrayBuffer();
-      return Buffer.from(arrayBuffer);
-    }
+  const [, id, slug] = match;
+  return {
+    gifUrl: `https://media.tenor.com/${id}AAAAC/${slug}.gif`,
+    mp4Url: `https://media.tenor.com/${id}AAAPo/${slug}.mp4`,
+    slug
+  };
+}
 
-    return null;
-  } catch {
-    return null;
-  }
+/** The app stores the GIF's alt text as the card description, prefixed with "Alt: ". */
+function gifAltText(external: any): string | undefined {
+  const description = typeof external?.description === "string" ? external.description.trim() : "";
+  const alt = description.replace(/^alt:\s*/i, "");
+  return alt || undefined;
+}
+
+// Store keys look like blob CIDs, so media without a CID is keyed by a hash of its URL.
+function urlKey(url: string): string {
+  return createHash("sha256").update(url).digest("hex");
+}
+
+/** Bluesky CDN image URLs end in `/{did}/{cid}@{format}`. */
+function cdnImageKey(url: string): string {
+  const cid = url.split("/").pop()?.split("@")[0] ?? "";
+  return /^[a-z0-9]{32,128}$/i.test(cid) ? cid : urlKey(url);
 }
 
-async function extractMedia(feedItem: any, agent: AtpAgent): Promise<MediaAsset[]> {
-  const media: MediaAsset[] = [];
+/**
+ * The post's attachments as metadata only. Nothing is downloaded while polling; the worker
+ * fetches the bytes when the job runs (see core/media-fetcher.ts).
+ */
+function extractPendingMedia(feedItem: any): PendingMedia[] {
+  const media: PendingMedia[] = [];
   const embedView = feedItem?.post?.embed;
   const mediaView =
     embedView?.$type === "app.bsky.embed.recordWithMedia#view" ? embedView?.media : embedView;
@@ -190,26 +208,12 @@ async function extractMedia(feedItem: any, agent: AtpAgent): Promise<MediaAsset[
         continue;
       }
 
-      try {
-        const downloaded = await fetchBufferFromUrl(image.fullsize);
-        const filename = image.fullsize.split("/").pop() ?? "";
-        const mimeType =
-          downloaded.mimeType.startsWith("image/")
-            ? downloaded.mimeType
-            : inferMimeFromMagic(downloaded.data) ??
-              inferMimeFromFileName(filename) ??
-              "image/jpeg";
-
-        media.push({
-          type: "image",
-          data: downloaded.data,
-          mimeType,
-          altText: typeof image.alt === "string" ? image.alt : undefined,
-          filename: filename || undefined
-        });
-      } catch {
-        continue;
-      }
+      media.push({
+        key: cdnImageKey(image.fullsize),
+        source: { kind: "image", url: image.fullsize },
+        altText: typeof image.alt === "string" ? image.alt : undefined,
+        filename: image.fullsize.split("/").pop() || undefined
+      });
     }
   }
 
@@ -221,48 +225,63 @@ async function extractMedia(feedItem: any, agent: AtpAgent): Promise<MediaAsset[
   ) {
     const cid = blobRefToCid(record.embed.video);
     if (cid) {
-      const blob = await fetchBlobFromRecord({
-        agent,
-        did,
-        cid
+      media.push({
+        key: cid,
+        source: {
+          kind: "video",
+          did,
+          cid,
+          mimeType: typeof record.embed.video.mimeType === "string" ? record.embed.video.mimeType : undefined
+        },
+        altText: typeof record.embed.alt === "string" ? record.embed.alt : undefined,
+        filename: `${cid}.mp4`
       });
+    }
+  }
 
-      if (blob) {
-        const recordMime = normalizeMimeType(record.embed.video.mimeType);
-        const mimeType =
-          recordMime.startsWith("video/")
-            ? recordMime
-            : inferMimeFromMagic(blob) ?? inferMimeFromFileName(`${cid}.mp4`) ?? "video/mp4";
-
-        media.push({
-          type: "video",
-          data: blob,
-          mimeType,
-          altText: typeof record.embed.alt === "string" ? record.embed.alt : undefined,
-          filename: `${cid}.mp4`
-        });
-      }
+  if (mediaView?.$type === "app.bsky.embed.external#view") {
+    const uri = mediaView.external?.uri;
+    const tenor = typeof uri === "string" ? parseTenorGifUrl(uri) : undefined;
+    if (tenor) {
+      media.push({
+        key: urlKey(tenor.gifUrl),
+        source: { kind: "tenor-gif", ...tenor },
+        altText: gifAltText(mediaView.external)
+      });
     }
   }
 
   return media;
 }
 
-export async function normalizeFeedPost(params: {
-  feedItem: any;
-  agent: AtpAgent;
-}): Promise<CrossPost | null> {
+export function normalizeFeedPost(params: { feedItem: any }): CrossPost | null {
   const postView = params.feedItem?.post;
   const record = postView?.record;
 
-  if (!postView?.uri || !postView?.cid || !record?.text || typeof postView?.author?.did !== "string") {
+  if (
+    !postView?.uri ||
+    !postView?.cid ||
+    typeof record?.text !== "string" ||
+    typeof postView?.author?.did !== "string"
+  ) {
     return null;
   }
 
-  const media = await extractMedia(params.feedItem, params.agent);
+  const pendingMedia = extractPendingMedia(params.feedItem);
+  // Media-only posts (a GIF or photos with no caption) have empty text.
+  if (!record.text && pendingMedia.length === 0) {
+    return null;
+  }
   const links = extractLinks(record, postView?.embed);
-  const altText = media.map((item) => item.altText).filter((item): item is string => Boolean(item));
+  const facets = extractFacets(record);
+  // A GIF that became media is no longer a link card to carry over.
+  const external = pendingMedia.some((item) => item.source.kind === "tenor-gif")
+    ? undefined
+    : extractExternalEmbed(postView?.embed);
+  const altText = pendingMedia.map((item) => item.altText).filter((item): item is string => Boolean(item));
   const quote = extractQuoteMetadata(postView?.embed);
+  const labels = extractSelfLabels(record);
+  const langs = extractLangs(record);
 
   const reply =
     record?.reply?.root?.uri &&
@@ -282,13 +301,17 @@ export async function normalizeFeedPost(params: {
 
   const crossPost: CrossPost = {
     text: String(record.text),
-    media: media.length > 0 ? media : undefined,
+    facets: facets.length > 0 ? facets : undefined,
+    pendingMedia: pendingMedia.length > 0 ? pendingMedia : undefined,
     links: links.length > 0 ? links : undefined,
+    external,
     altText: altText.length > 0 ? altText : undefined,
     createdAt,
     authorDid: postView.author.did,
     reply,
     quote,
+    labels: labels.length > 0 ? labels : undefined,
+    langs: langs.length > 0 ? langs : undefined,
     sourceUri: postView.uri,
     sourceCid: postView.cid
   };
@@ -1,19 +1,53 @@
 import { createHash } from "node:crypto";
 import net from "node:net";
-import { Queue, type JobsOptions } from "bullmq";
+import { Queue, type Job, type JobsOptions } from "bullmq";
+import type { Logger } from "pino";
 import { env } from "../config/env.js";
-import type { CrossPost, CrossPostJobData, PlatformName } from "./types.js";
-import { encodePostForQueue } from "./job-serialization.js";
+import { logger } from "../config/logger.js";
+import { DEFAULT_ACCOUNT_ID, type TargetInstance } from "../config/accounts.js";
+import type {
+  CrossPost,
+  CrossPostEditJobData,
+  CrossPostJobData,
+  CrossPostPublishJobData,
+  TargetKey
+} from "./types.js";
+import { platformOfTarget } from "./targets.js";
+import { getAdapterModule } from "../adapters/registry.js";
+import { decodePostFromQueue, encodePostForQueue, hasInlineMedia } from "./job-serialization.js";
+import type { MediaStore } from "./media-store.js";
+import type { AppDatabase } from "./db.js";
+import { inheritParentPriority } from "./budget.js";
 
-export const QUEUE_NAMES: Record<PlatformName, string> = {
-  mastodon: "crosspost-mastodon",
-  nostr: "crosspost-nostr",
-  twitter: "crosspost-twitter"
-};
+/**
+ * Unnamed targets of the default account keep the original `crosspost-<platform>` names so
+ * jobs queued before multi-account support are still picked up. Every other queue joins the
+ * account id and target parts with ".", which account ids, platform names and target names
+ * cannot contain, so no two targets share a queue. BullMQ reserves ":" in queue names.
+ */
+export function queueNameFor(target: TargetKey, accountId = DEFAULT_ACCOUNT_ID): string {
+  return accountId === DEFAULT_ACCOUNT_ID && !target.includes(":")
+    ? `crosspost-${target}`
+    : `crosspost.${accountId}.${target.replace(":", ".")}`;
+}
 
-export function createJobId(platform: PlatformName, sourceUri: string, suffix?: string): string {
+export function createJobId(target: TargetKey, sourceUri: string, suffix?: string): string {
   const digest = createHash("sha256").update(sourceUri).digest("hex").slice(0, 20);
-  return suffix ? `${platform}-${digest}-${suffix}` : `${platform}-${digest}`;
+  const prefix = target.replace(":", ".");
+  return suffix ? `${prefix}-${digest}-${suffix}` : `${prefix}-${digest}`;
+}
+
+/**
+ * The media-store reference a post or edit job holds. It is derived from the job data rather
+ * than the job id, so the copies the worker re-queues (budget, 429, session) share it.
+ */
+export function mediaHolderFor(
+  target: TargetKey,
+  data: Pick<CrossPostPublishJobData | CrossPostEditJobData, "action" | "post">
+): string {
+  return data.action === "edit"
+    ? createJobId(target, data.post.sourceUri, `edit-${data.post.sourceCid.slice(-16)}`)
+    : createJobId(target, data.post.sourceUri);
 }
 
 export function parseRedisConnection(redisUrl: string): {
@@ -104,68 +138,265 @@ const defaultJobOptions: JobsOptions = {
 
 export class QueueManager {
   readonly connectionOptions: ReturnType<typeof parseRedisConnection>;
-  readonly queues: Record<PlatformName, Queue<CrossPostJobData>>;
-
-  constructor(redisUrl = env.REDIS_URL) {
-    this.connectionOptions = parseRedisConnection(redisUrl);
-
-    this.queues = {
-      mastodon: new Queue<CrossPostJobData>(QUEUE_NAMES.mastodon, {
-        connection: this.connectionOptions,
-        defaultJobOptions
-      }),
-      nostr: new Queue<CrossPostJobData>(QUEUE_NAMES.nostr, {
-        connection: this.connectionOptions,
-        defaultJobOptions
-      }),
-      twitter: new Queue<CrossPostJobData>(QUEUE_NAMES.twitter, {
-        connection: this.connectionOptions,
-        defaultJobOptions
-      })
-    };
+  readonly accountId: string;
+  /** Holds the media of queued jobs; workers read from it and release what they are done with. */
+  readonly mediaStore: MediaStore;
+  private readonly db: AppDatabase;
+  private readonly log: Logger;
+  private readonly queues = new Map<TargetKey, Queue<CrossPostJobData>>();
+  private readonly targets = new Map<TargetKey, TargetInstance>();
+
+  /** `accountId` defaults to the account `db` is scoped to, `redisUrl` to REDIS_URL. */
+  constructor(params: {
+    targets: TargetInstance[];
+    db: AppDatabase;
+    mediaStore: MediaStore;
+    redisUrl?: string;
+    accountId?: string;
+  }) {
+    const accountId = params.accountId ?? params.db.accountId;
+    this.connectionOptions = parseRedisConnection(params.redisUrl ?? env.REDIS_URL);
+    this.accountId = accountId;
+    this.mediaStore = params.mediaStore;
+    this.db = params.db;
+    this.log = logger.child({ module: "core/queue", account: accountId });
+
+    for (const target of params.targets) {
+      this.targets.set(target.key, target);
+      this.queues.set(
+        target.key,
+        new Queue<CrossPostJobData>(queueNameFor(target.key, accountId), {
+          connection: this.connectionOptions,
+          defaultJobOptions: {
+            ...defaultJobOptions,
+            ...getAdapterModule(target.platform)?.queueOptions
+          }
+        })
+      );
+    }
+  }
+
+  queueFor(target: TargetKey): Queue<CrossPostJobData> {
+    const queue = this.queues.get(target);
+    if (!queue) {
+      throw new Error(`No queue configured for target ${target} on account ${this.accountId}`);
+    }
+    return queue;
   }
 
-  async enqueuePost(post: CrossPost, platforms: PlatformName[]): Promise<void> {
-    const serialized = encodePostForQueue(post);
+  /** Recorded per post, so that self-replies queued after it rank no higher (see `inheritParentPriority`). */
+  private postPriority(post: CrossPost, target: TargetKey): number | undefined {
+    const instance = this.targets.get(target);
+    const own = instance ? getAdapterModule(instance.platform)?.priority?.(post, instance.config) : undefined;
+    if (own === undefined) {
+      return undefined;
+    }
+
+    const priority = inheritParentPriority(this.db, target, post, own);
+    this.db.recordPostPriority(post.sourceUri, target, priority);
+    return priority;
+  }
+
+  /**
+   * `withGracePeriod` holds each job for the target's configured post delay so that a
+   * deletion during the window can cancel it (see `cancelPendingPosts`). Targets that ration
+   * their writes assign a priority so scarce slots go to the most valuable posts first.
+   */
+  async enqueuePost(
+    post: CrossPost,
+    targets: TargetKey[],
+    options: { withGracePeriod?: boolean } = {}
+  ): Promise<void> {
+    const serialized = encodePostForQueue(
+      post,
+      this.mediaStore,
+      targets.map((target) => mediaHolderFor(target, { action: "post", post }))
+    );
 
     await Promise.all(
-      platforms.map((platform) => {
-        const jobName = `${platform}-crosspost`;
-        return this.queues[platform].add(
+      targets.map((target) => {
+        const jobName = `${target}-crosspost`;
+        return this.queueFor(target).add(
           jobName,
           {
-            platform,
+            platform: platformOfTarget(target),
+            target,
             action: "post",
             post: serialized
           },
           {
-            jobId: createJobId(platform, post.sourceUri)
+            jobId: createJobId(target, post.sourceUri),
+            delay: options.withGracePeriod ? this.targets.get(target)?.postDelayMs || undefined : undefined,
+            priority: this.postPriority(post, target)
           }
         );
       })
     );
   }
 
-  async enqueueDelete(sourceUri: string, platforms: PlatformName[]): Promise<void> {
+  async enqueueEdit(post: CrossPost, targets: TargetKey[]): Promise<void> {
+    const serialized = encodePostForQueue(
+      post,
+      this.mediaStore,
+      targets.map((target) => mediaHolderFor(target, { action: "edit", post }))
+    );
+
     await Promise.all(
-      platforms.map((platform) => {
-        const jobName = `${platform}-delete`;
-        return this.queues[platform].add(
+      targets.map((target) => {
+        const jobName = `${target}-edit`;
+        return this.queueFor(target).add(
           jobName,
           {
-            platform,
+            platform: platformOfTarget(target),
+            target,
+            action: "edit",
+            post: serialized
+          },
+          {
+            jobId: createJobId(target, post.sourceUri, `edit-${post.sourceCid.slice(-16)}`)
+          }
+        );
+      })
+    );
+  }
+
+  /** Post jobs for a source post in the given states, including the copies the worker re-queued. */
+  private async findPostJobs(
+    target: TargetKey,
+    sourceUri: string,
+    states: Array<"waiting" | "delayed" | "prioritized" | "paused" | "active">
+  ): Promise<Job<CrossPostPublishJobData>[]> {
+    const jobs = (await this.queueFor(target).getJobs(states)) as Job<CrossPostJobData>[];
+    return jobs.filter(
+      (job): job is Job<CrossPostPublishJobData> =>
+        job?.data?.action === "post" && job.data.post.sourceUri === sourceUri
+    );
+  }
+
+  /**
+   * Removes post jobs for a source post that have not started yet, wherever the worker
+   * re-queued them (budget, rate limit, session or parent deferrals). Returns the targets
+   * whose jobs were cancelled.
+   */
+  async cancelPendingPosts(sourceUri: string, targets: TargetKey[]): Promise<TargetKey[]> {
+    const cancelled: TargetKey[] = [];
+
+    for (const target of targets) {
+      const jobs = await this.findPostJobs(target, sourceUri, ["waiting", "delayed", "prioritized", "paused"]);
+      if (jobs.length === 0) {
+        continue;
+      }
+
+      for (const job of jobs) {
+        await job.remove();
+      }
+
+      this.mediaStore.release(mediaHolderFor(target, jobs[0].data));
+      this.db.clearDeferredJob(target, sourceUri, "post");
+      cancelled.push(target);
+    }
+
+    return cancelled;
+  }
+
+  /** Targets with a post job for the source post that a worker is running right now. */
+  async findActivePosts(sourceUri: string, targets: TargetKey[]): Promise<TargetKey[]> {
+    const active: TargetKey[] = [];
+    for (const target of targets) {
+      if ((await this.findPostJobs(target, sourceUri, ["active"])).length > 0) {
+        active.push(target);
+      }
+    }
+
+    return active;
+  }
+
+  /**
+   * Moves media that jobs queued before the media store carry inline (`dataBase64`) into the
+   * store, so Redis stops holding the bytes. Runs before the workers start; jobs that are
+   * already active or failed keep their inline bytes, which the worker still reads.
+   */
+  async migrateInlineMedia(): Promise<number> {
+    let migrated = 0;
+
+    for (const [target, queue] of this.queues) {
+      const jobs = (await queue.getJobs(["waiting", "delayed", "prioritized", "paused"])) as Job<CrossPostJobData>[];
+      for (const job of jobs) {
+        const data = job?.data;
+        if (!data || data.action === "delete" || !hasInlineMedia(data.post)) {
+          continue;
+        }
+
+        const holder = mediaHolderFor(target, data);
+        try {
+          const post = await decodePostFromQueue(data.post, this.mediaStore);
+          data.post = encodePostForQueue(post, this.mediaStore, [holder]);
+          await job.updateData(data);
+          migrated += 1;
+        } catch (error) {
+          this.mediaStore.release(holder);
+          this.log.warn(
+            {
+              jobId: job.id,
+              target,
+              error: error instanceof Error ? error.message : String(error)
+            },
+            "Could not move inline job media to the media store; leaving the job as it is"
+          );
+        }
+      }
+    }
+
+    if (migrated > 0) {
+      this.log.info({ migrated }, "Moved inline job media to the media store");
+    }
+
+    return migrated;
+  }
+
+  async countPendingJobs(target: TargetKey): Promise<number> {
+    const counts = await this.queueFor(target).getJobCounts("waiting", "delayed", "prioritized", "active");
+    return Object.values(counts).reduce((total, count) => total + count, 0);
+  }
+
+  async enqueueDelete(sourceUri: string, targets: TargetKey[]): Promise<void> {
+    await Promise.all(
+      targets.map((target) => {
+        const jobName = `${target}-delete`;
+        return this.queueFor(target).add(
+          jobName,
+          {
+            platform: platformOfTarget(target),
+            target,
             action: "delete",
             sourceUri
           },
           {
-            jobId: createJobId(platform, sourceUri, "delete")
+            jobId: createJobId(target, sourceUri, "delete")
           }
         );
       })
     );
   }
 
+  /** Retries deleting copies an edit replaced, leaving the current copy alone. */
+  async enqueueSupersededDelete(target: TargetKey, sourceUri: string, remoteIds: string[]): Promise<void> {
+    await this.queueFor(target).add(
+      `${target}-delete-superseded`,
+      {
+        platform: platformOfTarget(target),
+        target,
+        action: "delete",
+        sourceUri,
+        remoteIds
+      },
+      {
+        jobId: createJobId(target, sourceUri, `delete-superseded-${Math.floor(Date.now() / 1000)}`)
+      }
+    );
+  }
+
   async close(): Promise<void> {
-    await Promise.all(Object.values(this.queues).map((queue) => queue.close()));
+    await Promise.all([...this.queues.values()].map((queue) => queue.close()));
   }
 }
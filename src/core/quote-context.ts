@@ -1,5 +1,9 @@
 import { AppDatabase } from "./db.js";
-import type { CrossPost, PlatformName } from "./types.js";
+import type { CrossPost, TargetKey } from "./types.js";
+import { platformOfTarget } from "./targets.js";
+import { getAdapterModule } from "../adapters/registry.js";
+import { renderRichText, type RichTextRenderOptions } from "./rich-text.js";
+import { appendLinkCard, type LinkCardPolicy } from "./link-card.js";
 
 function formatQuotedDate(value: string): string {
   const parsed = new Date(value);
@@ -21,31 +25,23 @@ function toQuoteBlock(text: string): string {
 
 function resolvePlatformQuoteUrl(params: {
   db: AppDatabase;
-  platform: PlatformName;
+  target: TargetKey;
   sourceUri: string;
 }): string | undefined {
-  const directUrl = params.db.getPlatformRemoteUrl(params.sourceUri, params.platform);
+  const directUrl = params.db.getPlatformRemoteUrl(params.sourceUri, params.target);
   if (directUrl) {
     return directUrl;
   }
 
-  const remoteId = params.db.getPlatformRemoteId(params.sourceUri, params.platform);
+  const remoteId = params.db.getPlatformRemoteId(params.sourceUri, params.target);
   if (!remoteId) {
     return undefined;
   }
 
-  if (params.platform === "twitter") {
-    return `https://x.com/i/web/status/${remoteId}`;
-  }
-
-  if (params.platform === "nostr") {
-    return `nostr:${remoteId}`;
-  }
-
-  return undefined;
+  return getAdapterModule(platformOfTarget(params.target))?.quoteUrl?.(remoteId);
 }
 
-function toBlueskyAppPostUrl(uri: string, actorHint?: string): string | undefined {
+export function toBlueskyAppPostUrl(uri: string, actorHint?: string): string | undefined {
   const match = uri.match(/^at:\/\/([^/]+)\/([^/]+)\/([^/?#]+)/);
   if (!match) {
     return undefined;
@@ -60,15 +56,26 @@ function toBlueskyAppPostUrl(uri: string, actorHint?: string): string | undefine
   return `https://bsky.app/profile/${encodeURIComponent(actor)}/post/${encodeURIComponent(rkey)}`;
 }
 
+/**
+ * The post's text rendered for the target (see `renderRichText`), its link card per `linkCard`
+ * (off when unset), plus quote context.
+ */
 export function buildPostTextWithSelfQuote(params: {
   post: CrossPost;
-  platform: PlatformName;
+  target: TargetKey;
   db: AppDatabase;
+  richText?: RichTextRenderOptions;
+  linkCard?: LinkCardPolicy;
 }): string {
   const { post } = params;
+  const text = appendLinkCard(
+    renderRichText(post.text, post.facets, params.richText),
+    post.external,
+    params.linkCard ?? "off"
+  );
 
   if (!post.quote) {
-    return post.text;
+    return text;
   }
 
   const quoteIsSelf =
@@ -78,16 +85,16 @@ export function buildPostTextWithSelfQuote(params: {
   const quoteUrl =
     resolvePlatformQuoteUrl({
       db: params.db,
-      platform: params.platform,
+      target: params.target,
       sourceUri: post.quote.uri
     }) ?? toBlueskyAppPostUrl(post.quote.uri, post.quote.authorDid);
 
   if (!quoteIsSelf) {
     const quoteReference = quoteUrl ? `Quoted post: ${quoteUrl}` : undefined;
-    return [post.text.trim(), quoteReference].filter(Boolean).join("\n\n");
+    return [text.trim(), quoteReference].filter(Boolean).join("\n\n");
   }
 
   const quoteHeader = `[Quoted ${formatQuotedDate(post.quote.createdAt)}]`;
-  const quoteBody = toQuoteBlock(post.quote.text);
-  return [post.text.trim(), quoteHeader, quoteBody, quoteUrl].filter(Boolean).join("\n\n");
+  const quoteBody = toQuoteBlock(renderRichText(post.quote.text, post.quote.facets, params.richText));
+  return [text.trim(), quoteHeader, quoteBody, quoteUrl].filter(Boolean).join("\n\n");
 }
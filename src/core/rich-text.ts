@@ -0,0 +1,108 @@
+import type { CrossPost, RichTextFacet } from "./types.js";
+
+export interface RichTextRenderOptions {
+  /**
+   * `mastodon` rewrites tag facets to `#tag` with only the characters Mastodon links as a
+   * hashtag, so tags like `#covid-19` stay one tag; `keep` leaves the span as written.
+   */
+  hashtags?: "keep" | "mastodon";
+  /** Replaces a mention facet's span (e.g. `@alice.bsky.social`); spans are kept without it. */
+  mention?: (did: string, spanText: string) => string;
+}
+
+const ELLIPSIS_PATTERN = /(?:\.\.\.|…)$/;
+
+/**
+ * The span's text if it already shows the whole link, the full URI if it is a shortened
+ * display form (`example.com/some-pa...`), or `text (uri)` for custom anchor text.
+ */
+function renderLink(spanText: string, uri: string): string {
+  if (spanText === uri) {
+    return uri;
+  }
+
+  const display = spanText.replace(ELLIPSIS_PATTERN, "");
+  const bareUri = uri.replace(/^https?:\/\//i, "");
+  if (bareUri.startsWith(display) || uri.startsWith(display)) {
+    return uri;
+  }
+
+  return `${spanText} (${uri})`;
+}
+
+function renderMastodonHashtag(spanText: string, tag: string): string {
+  if (!/^[#＃]/.test(spanText)) {
+    return spanText;
+  }
+
+  const name = tag.replace(/^[#＃]/, "").replace(/[^\p{L}\p{N}_]/gu, "");
+  return name ? `#${name}` : spanText;
+}
+
+/**
+ * Renders Bluesky text for another platform by rewriting facet spans. Facets address UTF-8
+ * bytes, so the text is sliced as a buffer; out-of-range or overlapping facets are ignored.
+ */
+export function renderRichText(
+  text: string,
+  facets: RichTextFacet[] | undefined,
+  options: RichTextRenderOptions = {}
+): string {
+  if (!facets || facets.length === 0) {
+    return text;
+  }
+
+  const bytes = Buffer.from(text, "utf8");
+  const sorted = [...facets].sort((left, right) => left.byteStart - right.byteStart);
+  const parts: string[] = [];
+  let cursor = 0;
+
+  for (const facet of sorted) {
+    if (facet.byteStart < cursor || facet.byteEnd > bytes.length || facet.byteStart >= facet.byteEnd) {
+      continue;
+    }
+
+    const spanText = bytes.subarray(facet.byteStart, facet.byteEnd).toString("utf8");
+    let rendered = spanText;
+
+    for (const feature of facet.features) {
+      if (feature.type === "link") {
+        rendered = renderLink(spanText, feature.uri);
+        break;
+      }
+
+      if (feature.type === "tag" && options.hashtags === "mastodon") {
+        rendered = renderMastodonHashtag(spanText, feature.tag);
+        break;
+      }
+
+      if (feature.type === "mention" && options.mention) {
+        rendered = options.mention(feature.did, spanText);
+        break;
+      }
+    }
+
+    parts.push(bytes.subarray(cursor, facet.byteStart).toString("utf8"), rendered);
+    cursor = facet.byteEnd;
+  }
+
+  parts.push(bytes.subarray(cursor).toString("utf8"));
+  return parts.join("");
+}
+
+/** Distinct hashtags from the post's tag facets, lower-cased and without `#`. */
+export function extractTags(post: CrossPost): string[] {
+  const tags = new Set<string>();
+  for (const facet of post.facets ?? []) {
+    for (const feature of facet.features) {
+      if (feature.type === "tag") {
+        const tag = feature.tag.replace(/^[#＃]/, "").trim().toLowerCase();
+        if (tag) {
+          tags.add(tag);
+        }
+      }
+    }
+  }
+
+  return [...tags];
+}
@@ -0,0 +1,122 @@
+import type { Logger } from "pino";
+import { env } from "../config/env.js";
+import { logger } from "../config/logger.js";
+import { SessionExpiredError, type PlatformAdapter } from "../adapters/base.js";
+import { AppDatabase } from "./db.js";
+import { QueueManager } from "./queue.js";
+import type { TargetKey } from "./types.js";
+import { sendAlert } from "./alerts.js";
+
+/**
+ * Probes adapters that implement `checkSession` and pauses a target's queue while its session
+ * is dead, so jobs wait instead of failing. Pauses made here are remembered in `sync_state`;
+ * queues paused by an operator are never resumed automatically.
+ */
+export class SessionMonitor {
+  private readonly log: Logger;
+  private readonly db: AppDatabase;
+  private readonly queueManager: QueueManager;
+  private readonly probes: Array<{ target: TargetKey; checkSession: () => Promise<void> }>;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(params: { db: AppDatabase; queueManager: QueueManager; adapters: PlatformAdapter[] }) {
+    this.db = params.db;
+    this.queueManager = params.queueManager;
+    this.probes = params.adapters.flatMap((adapter) =>
+      adapter.checkSession ? [{ target: adapter.target, checkSession: adapter.checkSession.bind(adapter) }] : []
+    );
+    this.log = logger.child({ module: "core/session-monitor", account: params.db.accountId });
+  }
+
+  start(): void {
+    if (this.timer || this.probes.length === 0) {
+      return;
+    }
+
+    this.log.info(
+      {
+        intervalMs: env.SESSION_CHECK_INTERVAL_MS,
+        targets: this.probes.map((probe) => probe.target)
+      },
+      "Starting session monitor"
+    );
+
+    this.timer = setInterval(() => {
+      void this.checkAll();
+    }, env.SESSION_CHECK_INTERVAL_MS);
+
+    void this.checkAll();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private pausedStateKey(target: TargetKey): string {
+    return `session_paused:${this.db.accountId}:${target}`;
+  }
+
+  /** Pauses the target's queue and alerts once per outage. */
+  async markExpired(target: TargetKey, reason: string): Promise<void> {
+    if (this.db.getSyncState(this.pausedStateKey(target))) {
+      return;
+    }
+
+    this.db.setSyncState(this.pausedStateKey(target), new Date().toISOString());
+    await this.queueManager.queueFor(target).pause();
+
+    await sendAlert("Target session expired; queue paused until the session works again", {
+      account: this.db.accountId,
+      target,
+      reason
+    });
+  }
+
+  private async markHealthy(target: TargetKey): Promise<void> {
+    const pausedAt = this.db.getSyncState(this.pausedStateKey(target));
+    if (!pausedAt) {
+      return;
+    }
+
+    await this.queueManager.queueFor(target).resume();
+    this.db.setSyncState(this.pausedStateKey(target), "");
+    this.log.info({ target, pausedAt }, "Target session is valid again; queue resumed");
+  }
+
+  private async checkAll(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      for (const probe of this.probes) {
+        try {
+          await probe.checkSession();
+          await this.markHealthy(probe.target);
+        } catch (error) {
+          if (error instanceof SessionExpiredError) {
+            await this.markExpired(probe.target, error.message);
+            continue;
+          }
+
+          // Network trouble says nothing about the session; try again next round.
+          this.log.warn(
+            {
+              target: probe.target,
+              error: error instanceof Error ? error.message : String(error)
+            },
+            "Session probe failed"
+          );
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
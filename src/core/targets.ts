@@ -0,0 +1,29 @@
+import type { TargetInstance } from "../config/accounts.js";
+import { findSkippedLabel } from "./labels.js";
+import { matchesLanguages } from "./languages.js";
+import type { CrossPost, PlatformName, TargetKey } from "./types.js";
+
+export function toTargetKey(platform: PlatformName, name?: string): TargetKey {
+  return name ? `${platform}:${name}` : platform;
+}
+
+export function platformOfTarget(target: TargetKey): PlatformName {
+  return target.split(":", 1)[0];
+}
+
+/** Why the target's `skipLabels`/`languages` settings keep the post off it, if they do. */
+export function routingExclusion(
+  post: CrossPost,
+  target: Pick<TargetInstance, "skipLabels" | "languages"> | undefined
+): string | undefined {
+  const skippedLabel = findSkippedLabel(post, target?.skipLabels ?? []);
+  if (skippedLabel) {
+    return `label ${skippedLabel}`;
+  }
+
+  if (!matchesLanguages(post, target?.languages ?? [])) {
+    return `languages ${post.langs?.join(",")} not in ${target?.languages.join(",")}`;
+  }
+
+  return undefined;
+}
@@ -27,7 +27,7 @@ function isBreakCandidate(grapheme: string): boolean {
   return /\s/.test(grapheme) || /[.!?,;:]/.test(grapheme);
 }
 
-function trimToLimit(text: string, maxLength: number, countLength: LengthCounter): string {
+export function trimToLimit(text: string, maxLength: number, countLength: LengthCounter): string {
   if (countLength(text) <= maxLength) {
     return text;
   }
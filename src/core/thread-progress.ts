@@ -0,0 +1,92 @@
+import { AppDatabase } from "./db.js";
+import type { TargetKey } from "./types.js";
+
+// Platforms expire unattached uploads (Twitter after 24h); re-upload well before that.
+const MEDIA_REUSE_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Checkpoint key for applying one edit (a record CID) to a published thread, kept apart from
+ * the post's own progress so a retried edit skips statuses it already updated or created.
+ */
+export function editCheckpointKey(sourceUri: string, sourceCid: string): string {
+  return `${sourceUri}#edit-${sourceCid}`;
+}
+
+/**
+ * Per-chunk progress of a thread being published. Every published chunk is saved right
+ * away, so a retried job resumes after the last one instead of posting duplicates, and a
+ * delete still finds the chunks of a thread that never completed. The worker's
+ * `recordPlatformSuccess` clears the checkpoint.
+ */
+export class ThreadCheckpoint {
+  private readonly db: AppDatabase;
+  private readonly target: TargetKey;
+  private readonly sourceUri: string;
+  private readonly remoteIds: string[];
+  private firstUrl?: string;
+  private mediaIds?: string[];
+  private mediaUploadedAt?: string;
+
+  constructor(params: { db: AppDatabase; target: TargetKey; sourceUri: string }) {
+    this.db = params.db;
+    this.target = params.target;
+    this.sourceUri = params.sourceUri;
+
+    const saved = params.db.getThreadProgress(params.sourceUri, params.target);
+    this.remoteIds = saved?.remoteIds ?? [];
+    this.firstUrl = saved?.firstUrl;
+    this.mediaIds = saved?.mediaIds;
+    this.mediaUploadedAt = saved?.mediaUploadedAt;
+  }
+
+  /** Chunks already published by an earlier attempt. */
+  get publishedCount(): number {
+    return this.remoteIds.length;
+  }
+
+  get lastRemoteId(): string | undefined {
+    return this.remoteIds[this.remoteIds.length - 1];
+  }
+
+  get publishedIds(): string[] {
+    return [...this.remoteIds];
+  }
+
+  get url(): string | undefined {
+    return this.firstUrl;
+  }
+
+  /** Returns media uploaded by an earlier attempt while still fresh, otherwise uploads it now. */
+  async uploadMediaOnce(upload: () => Promise<string[]>): Promise<string[]> {
+    if (this.mediaIds && this.mediaUploadedAt && Date.now() - Date.parse(this.mediaUploadedAt) < MEDIA_REUSE_MS) {
+      return this.mediaIds;
+    }
+
+    this.mediaIds = await upload();
+    this.mediaUploadedAt = new Date().toISOString();
+    this.save();
+    return this.mediaIds;
+  }
+
+  recordChunk(remoteId: string, url?: string): void {
+    this.remoteIds.push(remoteId);
+    this.firstUrl ??= url;
+    this.save();
+  }
+
+  /** For checkpoints the worker does not clear, such as an edit's. */
+  clear(): void {
+    this.db.clearThreadProgress(this.sourceUri, this.target);
+  }
+
+  private save(): void {
+    this.db.saveThreadProgress({
+      uri: this.sourceUri,
+      target: this.target,
+      remoteIds: this.remoteIds,
+      firstUrl: this.firstUrl,
+      mediaIds: this.mediaIds,
+      mediaUploadedAt: this.mediaUploadedAt
+    });
+  }
+}
@@ -1,4 +1,11 @@
-export type PlatformName = "mastodon" | "nostr" | "twitter";
+/** Name of a registered target adapter module, e.g. "mastodon" (see adapters/registry.ts). */
+export type PlatformName = string;
+
+/**
+ * One configured destination: the bare platform name for an unnamed instance, or
+ * `platform:name` (e.g. `mastodon:work`) when several accounts post to the same platform.
+ */
+export type TargetKey = string;
 
 export type MediaType = "image" | "video";
 
@@ -8,6 +15,29 @@ export interface MediaAsset {
   mimeType: string;
   altText?: string;
   filename?: string;
+  /** A looping GIF (or its MP4 rendition) that platforms should show as animated media. */
+  animated?: boolean;
+}
+
+/** Where an attachment the normalizer did not download comes from. */
+export type MediaSource =
+  /** A Bluesky CDN image (`feed_fullsize`). */
+  | { kind: "image"; url: string }
+  /** A video blob, fetched from the author's PDS with `com.atproto.sync.getBlob`. */
+  | { kind: "video"; did: string; cid: string; mimeType?: string }
+  /** A GIF picked in the Bluesky app; Tenor's MP4 rendition stands in when the GIF is too large. */
+  | { kind: "tenor-gif"; gifUrl: string; mp4Url: string; slug: string };
+
+/**
+ * An attachment known from the post's metadata. Workers download it when the job runs and
+ * cache it in the media store under `key` (the blob CID where there is one), so every target
+ * shares one download.
+ */
+export interface PendingMedia {
+  key: string;
+  source: MediaSource;
+  altText?: string;
+  filename?: string;
 }
 
 export interface ReplyMetadata {
@@ -17,29 +47,81 @@ export interface ReplyMetadata {
   parentCid: string;
 }
 
+/** A link card (`app.bsky.embed.external`); `thumbUrl` is the appview's CDN copy of the thumbnail. */
+export interface ExternalEmbed {
+  uri: string;
+  title?: string;
+  description?: string;
+  thumbUrl?: string;
+}
+
+export type RichTextFeature =
+  | { type: "link"; uri: string }
+  | { type: "tag"; tag: string }
+  | { type: "mention"; did: string };
+
+/** A Bluesky rich-text facet. Offsets are UTF-8 byte positions in the text, end exclusive. */
+export interface RichTextFacet {
+  byteStart: number;
+  byteEnd: number;
+  features: RichTextFeature[];
+}
+
 export interface QuoteMetadata {
   uri: string;
   cid?: string;
   text: string;
+  facets?: RichTextFacet[];
   createdAt: string;
   authorDid?: string;
 }
 
 export interface CrossPost {
+  /** Raw record text; adapters render it with `facets` (see core/rich-text.ts). */
   text: string;
+  facets?: RichTextFacet[];
+  /** Downloaded attachments; the worker fills this from `pendingMedia` before adapters run. */
   media?: MediaAsset[];
+  pendingMedia?: PendingMedia[];
   links?: string[];
+  external?: ExternalEmbed;
   altText?: string[];
   createdAt: string;
   authorDid: string;
   reply?: ReplyMetadata;
   quote?: QuoteMetadata;
+  /** Self-labels the author put on the Bluesky post, e.g. `porn` or `graphic-media`. */
+  labels?: string[];
+  /** BCP-47 language tags from the record's `langs`, most prominent first. */
+  langs?: string[];
   sourceUri: string;
   sourceCid: string;
 }
 
+/**
+ * Who a Bluesky account is on the target platforms, used to turn mentions into real ones.
+ * `manual` rows are maintained with the `mentions` command and never touched by discovery.
+ */
+export interface MentionMapping {
+  did: string;
+  handle?: string;
+  /** `user@instance`, without the leading `@`. */
+  mastodon?: string;
+  /** Screen name without `@`. */
+  twitter?: string;
+  /** `npub1...` */
+  nostr?: string;
+  source: "manual" | "discovered";
+  checkedAt?: string;
+}
+
+/**
+ * Media in a queued job: the hash of a blob in the media store (core/media-store.ts). Jobs
+ * queued before the store carry the bytes inline as `dataBase64` instead.
+ */
 export interface MediaAssetWire extends Omit<MediaAsset, "data"> {
-  dataBase64: string;
+  sha256?: string;
+  dataBase64?: string;
 }
 
 export interface CrossPostWire extends Omit<CrossPost, "media"> {
@@ -50,21 +132,35 @@ export interface PostResult {
   id: string;
   url?: string;
   threadIds?: string[];
+  /** Copies an edit replaced; the worker deletes them once the new ids are recorded. */
+  supersededIds?: string[];
 }
 
 export interface CrossPostPublishJobData {
   platform: PlatformName;
+  /** Absent on jobs queued before named target instances; the platform name applies then. */
+  target?: TargetKey;
   action: "post";
   post: CrossPost | CrossPostWire;
 }
 
+export interface CrossPostEditJobData {
+  platform: PlatformName;
+  target?: TargetKey;
+  action: "edit";
+  post: CrossPost | CrossPostWire;
+}
+
 export interface CrossPostDeleteJobData {
   platform: PlatformName;
+  target?: TargetKey;
   action: "delete";
   sourceUri: string;
+  /** Deletes only these copies (superseded by an edit); the recorded copy stays up. */
+  remoteIds?: string[];
 }
 
-export type CrossPostJobData = CrossPostPublishJobData | CrossPostDeleteJobData;
+export type CrossPostJobData = CrossPostPublishJobData | CrossPostEditJobData | CrossPostDeleteJobData;
 
 export interface SourceRecord {
   uri: string;
@@ -1,61 +1,81 @@
-import { env, platformConfig } from "./config/env.js";
+import { env } from "./config/env.js";
 import { logger } from "./config/logger.js";
+import { loadSourceAccounts, type SourceAccountConfig } from "./config/accounts.js";
 import { AppDatabase } from "./core/db.js";
 import { QueueManager, assertRedisReachable } from "./core/queue.js";
 import { BlueskyPoller } from "./core/poller.js";
+import { BlueskyJetstreamSubscriber } from "./core/jetstream.js";
+import { SessionMonitor } from "./core/session-monitor.js";
+import { MediaStore } from "./core/media-store.js";
+import { MediaFetcher } from "./core/media-fetcher.js";
 import { BlueskySourceAdapter } from "./adapters/bluesky.js";
-import { MastodonAdapter } from "./adapters/mastodon.js";
-import { NostrAdapter } from "./adapters/nostr.js";
-import { TwitterAdapter } from "./adapters/twitter.js";
 import type { PlatformAdapter } from "./adapters/base.js";
+import { loadAdapterModules, requireAdapterModule } from "./adapters/registry.js";
+import { registerBuiltInAdapters } from "./adapters/builtin.js";
 import { CrosspostWorkers } from "./workers/crosspost-worker.js";
 
-async function boot(): Promise<void> {
-  const appLogger = logger.child({ module: "index" });
-  appLogger.info({ nodeEnv: env.NODE_ENV }, "Starting cross-post service");
+interface AccountPipeline {
+  poller: BlueskyPoller;
+  jetstream: BlueskyJetstreamSubscriber | null;
+  workers: CrosspostWorkers;
+  sessionMonitor: SessionMonitor;
+  adapters: PlatformAdapter[];
+  queueManager: QueueManager;
+}
 
-  await assertRedisReachable(env.REDIS_URL);
+async function startAccount(account: SourceAccountConfig, rootDb: AppDatabase): Promise<AccountPipeline> {
+  const accountLogger = logger.child({ module: "index", account: account.id });
 
-  const db = new AppDatabase(env.DB_PATH);
-  const queueManager = new QueueManager(env.REDIS_URL);
-  const source = new BlueskySourceAdapter();
+  const db = rootDb.forAccount(account.id);
+  const queueManager = new QueueManager({
+    targets: account.targets,
+    db,
+    mediaStore: new MediaStore({ db }),
+    redisUrl: env.REDIS_URL,
+    accountId: account.id
+  });
+  const source = new BlueskySourceAdapter(account.bluesky);
 
   await source.init();
 
   const adapters: PlatformAdapter[] = [];
-  const candidates: Array<{ enabled: boolean; adapter: PlatformAdapter }> = [
-    { enabled: platformConfig.mastodonEnabled, adapter: new MastodonAdapter(db) },
-    { enabled: platformConfig.nostrEnabled, adapter: new NostrAdapter(db) },
-    { enabled: platformConfig.twitterEnabled, adapter: new TwitterAdapter(db) }
-  ];
+  const candidates = account.targets.map((target) => requireAdapterModule(target.platform).create(db, target));
 
   for (const candidate of candidates) {
-    if (!candidate.enabled) {
-      continue;
-    }
-
     try {
-      await candidate.adapter.init();
-      adapters.push(candidate.adapter);
+      await candidate.init();
+      adapters.push(candidate);
     } catch (error) {
-      appLogger.error(
+      accountLogger.error(
         {
-          platform: candidate.adapter.name,
+          target: candidate.target,
           error: error instanceof Error ? error.message : String(error)
         },
-        "Adapter failed to initialize; continuing without this platform"
+        "Adapter failed to initialize; continuing without this target"
       );
     }
   }
 
   if (adapters.length === 0) {
-    throw new Error("No target platform adapters initialized. Check environment configuration.");
+    throw new Error(
+      `No target platform adapters initialized for account "${account.id}". Check environment configuration.`
+    );
   }
 
+  const targets = account.targets.filter((target) => adapters.some((adapter) => adapter.target === target.key));
+
+  await queueManager.migrateInlineMedia();
+
+  const sessionMonitor = new SessionMonitor({ db, queueManager, adapters });
+  sessionMonitor.start();
+
   const workers = new CrosspostWorkers({
     queueManager,
     db,
-    adapters
+    adapters,
+    targets,
+    sessionMonitor,
+    mediaFetcher: new MediaFetcher({ agent: source.agent, store: queueManager.mediaStore })
   });
   workers.start();
 
@@ -63,10 +83,44 @@ async function boot(): Promise<void> {
     source,
     db,
     queueManager,
-    targetPlatforms: adapters.map((adapter) => adapter.name)
+    targets
   });
   poller.start();
 
+  const jetstream =
+    env.BLUESKY_SOURCE_MODE === "jetstream"
+      ? new BlueskyJetstreamSubscriber({ source, db, poller })
+      : null;
+  jetstream?.start();
+
+  return { poller, jetstream, workers, sessionMonitor, adapters, queueManager };
+}
+
+async function boot(): Promise<void> {
+  const appLogger = logger.child({ module: "index" });
+
+  registerBuiltInAdapters();
+  await loadAdapterModules(env.adapterModules);
+  const sourceAccounts = loadSourceAccounts();
+
+  appLogger.info(
+    { nodeEnv: env.NODE_ENV, accounts: sourceAccounts.map((account) => account.id) },
+    "Starting cross-post service"
+  );
+
+  await assertRedisReachable(env.REDIS_URL);
+
+  const db = new AppDatabase(env.DB_PATH);
+  const pipelines: AccountPipeline[] = [];
+  // Blobs are shared by every account, so one store collects garbage for all of them.
+  const mediaStore = new MediaStore({ db });
+
+  for (const account of sourceAccounts) {
+    pipelines.push(await startAccount(account, db));
+  }
+
+  mediaStore.start();
+
   let shuttingDown = false;
   const shutdown = async (signal: string): Promise<void> => {
     if (shuttingDown) {
@@ -76,10 +130,17 @@ async function boot(): Promise<void> {
 
     appLogger.info({ signal }, "Shutting down cross-post service");
 
-    await poller.stop();
-    await workers.close();
-    await Promise.all(adapters.map((adapter) => adapter.destroy()));
-    await queueManager.close();
+    await Promise.all(
+      pipelines.map(async (pipeline) => {
+        await pipeline.jetstream?.stop();
+        await pipeline.poller.stop();
+        await pipeline.sessionMonitor.stop();
+        await pipeline.workers.close();
+        await Promise.all(pipeline.adapters.map((adapter) => adapter.destroy()));
+        await pipeline.queueManager.close();
+      })
+    );
+    await mediaStore.stop();
     db.close();
 
     appLogger.info("Shutdown complete");
@@ -0,0 +1,141 @@
+import { parseArgs } from "node:util";
+import { env } from "./config/env.js";
+import { logger } from "./config/logger.js";
+import { loadSourceAccounts } from "./config/accounts.js";
+import { AppDatabase } from "./core/db.js";
+import { MentionDiscovery, normalizeMentionIdentity, type MentionPlatform } from "./core/mentions.js";
+import type { MentionMapping } from "./core/types.js";
+import { BlueskySourceAdapter } from "./adapters/bluesky.js";
+import { loadAdapterModules } from "./adapters/registry.js";
+import { registerBuiltInAdapters } from "./adapters/builtin.js";
+
+const USAGE = `Usage: mentions <command> [options]
+
+Maintains how mentioned Bluesky accounts are written on Mastodon, Twitter and Nostr.
+
+  list                           Print every mapping
+  set <handle|did> [identities]  Map an account by hand; discovery never overwrites it
+  discover <handle|did>          Look the account up from its Bluesky profile now
+  remove <handle|did>            Delete the mapping (discovery may find it again)
+
+Identities for set (pass an empty value to clear one):
+  --mastodon <@user@instance>
+  --twitter <screen name>
+  --nostr <npub>
+
+  --account <id>   Bluesky account used for lookups (default: the first configured)`;
+
+const PLATFORMS: MentionPlatform[] = ["mastodon", "twitter", "nostr"];
+
+function formatMapping(mapping: MentionMapping): string {
+  const identities = PLATFORMS.filter((platform) => mapping[platform]).map(
+    (platform) => `${platform}=${mapping[platform]}`
+  );
+  return `${mapping.handle ?? "?"}  ${mapping.did}  [${mapping.source}]  ${identities.join("  ") || "(no identities)"}`;
+}
+
+async function resolveDid(source: BlueskySourceAdapter, actor: string): Promise<{ did: string; handle?: string }> {
+  if (actor.startsWith("did:")) {
+    return { did: actor };
+  }
+
+  const handle = actor.replace(/^@/, "");
+  const { data } = await source.agent.resolveHandle({ handle });
+  return { did: data.did, handle };
+}
+
+async function run(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      account: { type: "string" },
+      mastodon: { type: "string" },
+      twitter: { type: "string" },
+      nostr: { type: "string" },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  const [command, actor] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const db = new AppDatabase(env.DB_PATH);
+  try {
+    if (command === "list") {
+      for (const mapping of db.listMentionMappings()) {
+        console.log(formatMapping(mapping));
+      }
+      return;
+    }
+
+    if (!["set", "discover", "remove"].includes(command)) {
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+    }
+
+    if (!actor) {
+      throw new Error(`${command} needs a handle or DID\n\n${USAGE}`);
+    }
+
+    registerBuiltInAdapters();
+    await loadAdapterModules(env.adapterModules);
+    const accounts = loadSourceAccounts();
+    const account = values.account ? accounts.find((candidate) => candidate.id === values.account) : accounts[0];
+    if (!account) {
+      throw new Error(`Unknown --account: ${values.account}`);
+    }
+
+    const source = new BlueskySourceAdapter(account.bluesky);
+    await source.init();
+    const { did, handle } = await resolveDid(source, actor);
+    const existing = db.getMentionMapping(did);
+
+    if (command === "remove") {
+      console.log(db.deleteMentionMapping(did) ? `Removed mapping for ${actor}` : `No mapping for ${actor}`);
+      return;
+    }
+
+    if (command === "discover") {
+      if (existing?.source === "manual") {
+        throw new Error(`${actor} is mapped by hand; remove the mapping first to use discovery`);
+      }
+
+      console.log(formatMapping(await new MentionDiscovery({ db, agent: source.agent }).discoverDid(did)));
+      return;
+    }
+
+    const mapping: MentionMapping = {
+      did,
+      handle: handle ?? existing?.handle,
+      mastodon: existing?.mastodon,
+      twitter: existing?.twitter,
+      nostr: existing?.nostr,
+      source: "manual",
+      checkedAt: new Date().toISOString()
+    };
+
+    for (const platform of PLATFORMS) {
+      const value = values[platform];
+      if (value !== undefined) {
+        mapping[platform] = value.trim() ? normalizeMentionIdentity(platform, value) : undefined;
+      }
+    }
+
+    db.saveMentionMapping(mapping);
+    console.log(formatMapping(mapping));
+  } finally {
+    db.close();
+  }
+}
+
+run().catch((error) => {
+  logger.fatal(
+    {
+      error: error instanceof Error ? error.message : String(error)
+    },
+    "Mentions command failed"
+  );
+  process.exit(1);
+});
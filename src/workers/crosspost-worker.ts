@@ -1,14 +1,33 @@
 import { UnrecoverableError, Worker, type Job } from "bullmq";
+import type { Logger } from "pino";
 import { env } from "../config/env.js";
 import { logger } from "../config/logger.js";
-import { QUEUE_NAMES, QueueManager, createJobId } from "../core/queue.js";
-import type { CrossPostJobData, PlatformName } from "../core/types.js";
+import { QueueManager, createJobId, mediaHolderFor } from "../core/queue.js";
+import type {
+  CrossPost,
+  CrossPostEditJobData,
+  CrossPostJobData,
+  CrossPostPublishJobData,
+  PostResult,
+  TargetKey
+} from "../core/types.js";
 import { AppDatabase } from "../core/db.js";
-import type { PlatformAdapter } from "../adapters/base.js";
-import { TwitterDailyLimitError } from "../adapters/twitter.js";
+import type { TargetInstance } from "../config/accounts.js";
+import {
+  DailyLimitError,
+  DependencyNotReadyError,
+  PostDroppedError,
+  SessionExpiredError,
+  type PlatformAdapter
+} from "../adapters/base.js";
 import { decodePostFromQueue } from "../core/job-serialization.js";
+import type { MediaFetcher } from "../core/media-fetcher.js";
+import type { SessionMonitor } from "../core/session-monitor.js";
+import { routingExclusion } from "../core/targets.js";
 
 const MIN_429_DELAY_MS = 60_000;
+// Retry delay for a reply whose parent is queued without a forecast slot yet.
+const DEPENDENCY_RETRY_MS = 60_000;
 
 function extractStatusCode(error: unknown): number | undefined {
   if (!error || typeof error !== "object") {
@@ -70,7 +89,7 @@ function toHeaderValue(value: unknown): string | undefined {
   return undefined;
 }
 
-function extractTwitter429DelayMs(error: unknown): number | undefined {
+function extractRateLimitDelayMs(error: unknown): number | undefined {
   if (!error || typeof error !== "object") {
     return undefined;
   }
@@ -128,48 +147,58 @@ function extractTwitter429DelayMs(error: unknown): number | undefined {
 }
 
 export class CrosspostWorkers {
-  private readonly log = logger.child({ module: "workers/crosspost" });
+  private readonly log: Logger;
   private readonly queueManager: QueueManager;
   private readonly db: AppDatabase;
-  private readonly adapters: Map<PlatformName, PlatformAdapter>;
+  private readonly adapters: Map<TargetKey, PlatformAdapter>;
+  private readonly targets: Map<TargetKey, TargetInstance>;
+  private readonly sessionMonitor: SessionMonitor;
+  private readonly mediaFetcher: MediaFetcher;
   private readonly workers: Worker<CrossPostJobData>[] = [];
 
   constructor(params: {
     queueManager: QueueManager;
     db: AppDatabase;
     adapters: PlatformAdapter[];
+    targets: TargetInstance[];
+    sessionMonitor: SessionMonitor;
+    mediaFetcher: MediaFetcher;
   }) {
     this.queueManager = params.queueManager;
     this.db = params.db;
-    this.adapters = new Map(params.adapters.map((adapter) => [adapter.name, adapter]));
+    this.sessionMonitor = params.sessionMonitor;
+    this.mediaFetcher = params.mediaFetcher;
+    this.log = logger.child({ module: "workers/crosspost", account: params.db.accountId });
+    this.adapters = new Map(params.adapters.map((adapter) => [adapter.target, adapter]));
+    this.targets = new Map(params.targets.map((target) => [target.key, target]));
   }
 
   start(): void {
-    for (const [platform, adapter] of this.adapters.entries()) {
-      const queueName = QUEUE_NAMES[platform];
-      const isTwitter = platform === "twitter";
+    for (const [target, adapter] of this.adapters.entries()) {
+      const queueName = this.queueManager.queueFor(target).name;
+      const minPostIntervalMs = this.targets.get(target)?.minPostIntervalMs;
 
       const worker = new Worker<CrossPostJobData>(
         queueName,
         async (job) => this.processJob(job, adapter),
         {
           connection: this.queueManager.connectionOptions,
-          concurrency: isTwitter ? 1 : 4,
-          limiter: isTwitter
+          concurrency: minPostIntervalMs ? 1 : 4,
+          limiter: minPostIntervalMs
             ? {
                 max: 1,
-                duration: env.TWITTER_MIN_POST_INTERVAL_MS
+                duration: minPostIntervalMs
               }
             : undefined
         }
       );
 
       worker.on("completed", (job) => {
-        const sourceUri = job.data.action === "post" ? job.data.post.sourceUri : job.data.sourceUri;
+        const sourceUri = job.data.action === "delete" ? job.data.sourceUri : job.data.post.sourceUri;
         this.log.info(
           {
             jobId: job.id,
-            platform,
+            target,
             sourceUri,
             action: job.data.action
           },
@@ -179,11 +208,11 @@ export class CrosspostWorkers {
 
       worker.on("failed", (job, error) => {
         const sourceUri =
-          job?.data.action === "post" ? job.data.post.sourceUri : job?.data.sourceUri;
+          job?.data.action === "delete" ? job.data.sourceUri : job?.data.post.sourceUri;
         this.log.error(
           {
             jobId: job?.id,
-            platform,
+            target,
             sourceUri,
             action: job?.data.action,
             error: error?.message
@@ -196,31 +225,42 @@ export class CrosspostWorkers {
       this.log.info(
         {
           queueName,
-          platform,
-          concurrency: isTwitter ? 1 : 4,
-          minPostIntervalMs: isTwitter ? env.TWITTER_MIN_POST_INTERVAL_MS : undefined
+          target,
+          concurrency: minPostIntervalMs ? 1 : 4,
+          minPostIntervalMs
         },
         "Worker started"
       );
     }
   }
 
+  /** Results are recorded under the adapter's target, which also covers jobs queued without one. */
   private async processJob(job: Job<CrossPostJobData>, adapter: PlatformAdapter): Promise<void> {
     if (job.data.action === "delete") {
-      const { sourceUri } = job.data;
+      const { sourceUri, remoteIds } = job.data;
       try {
-        await adapter.delete(sourceUri);
-        this.db.recordPlatformDeletion({
-          uri: sourceUri,
-          platform: job.data.platform
-        });
+        await adapter.delete(sourceUri, remoteIds);
+        if (!remoteIds) {
+          this.db.recordPlatformDeletion({
+            uri: sourceUri,
+            platform: adapter.target
+          });
+        }
       } catch (error) {
+        if (error instanceof SessionExpiredError) {
+          await this.deferUntilSessionRestored(job, adapter, sourceUri, error);
+          return;
+        }
+
         const message = error instanceof Error ? error.message : String(error);
-        this.db.recordPlatformFailure({
-          uri: sourceUri,
-          platform: job.data.platform,
-          error: message
-        });
+        // A superseded copy failing to go away says nothing about the current one.
+        if (!remoteIds) {
+          this.db.recordPlatformFailure({
+            uri: sourceUri,
+            platform: adapter.target,
+            error: message
+          });
+        }
 
         const statusCode = extractStatusCode(error);
         if (isPermanentClientError(statusCode)) {
@@ -232,70 +272,213 @@ export class CrosspostWorkers {
       return;
     }
 
-    const post = decodePostFromQueue(job.data.post);
+    const data = job.data;
+    let post: CrossPost;
+    try {
+      post = await decodePostFromQueue(data.post, this.queueManager.mediaStore);
+    } catch (error) {
+      // Retrying cannot bring back a blob that is gone from the media store.
+      const message = error instanceof Error ? error.message : String(error);
+      this.db.recordPlatformFailure({ uri: data.post.sourceUri, platform: adapter.target, error: message });
+      this.releaseMedia(data, adapter);
+      throw new UnrecoverableError(message);
+    }
+
+    if (this.db.isSourcePostDeleted(post.sourceUri)) {
+      this.db.recordPlatformCancelled({
+        uri: post.sourceUri,
+        platform: adapter.target
+      });
+      this.releaseMedia(data, adapter);
+      this.log.info(
+        {
+          jobId: job.id,
+          target: adapter.target,
+          sourceUri: post.sourceUri
+        },
+        "Source post was deleted before publishing; skipping cross-post"
+      );
+      return;
+    }
+
+    // A job that runs is no longer waiting for budget; it records a new forecast if it has to wait again.
+    this.db.clearDeferredJob(adapter.target, post.sourceUri, job.data.action);
+
+    // Checked here rather than at enqueue time so catch-up, backfill and requeues honour it too.
+    const excludedBy = routingExclusion(post, this.targets.get(adapter.target));
+    if (excludedBy) {
+      if (job.data.action === "post") {
+        this.db.recordPlatformCancelled({
+          uri: post.sourceUri,
+          platform: adapter.target
+        });
+      }
+      this.releaseMedia(data, adapter);
+      this.log.info(
+        {
+          jobId: job.id,
+          target: adapter.target,
+          sourceUri: post.sourceUri,
+          action: job.data.action,
+          reason: excludedBy
+        },
+        "Post is not routed to this target; not syndicating"
+      );
+      return;
+    }
 
     try {
-      const result = await adapter.post(post);
+      if (
+        job.data.action === "edit" &&
+        !this.db.getPlatformRemoteId(post.sourceUri, adapter.target) &&
+        this.db.getPlatformStatus(post.sourceUri, adapter.target) === "queued"
+      ) {
+        throw new DependencyNotReadyError(`Post job for ${post.sourceUri} has not published the copy to edit yet`);
+      }
+
+      // Downloaded only now, so a failed download is retried like a failed publish.
+      const resolved = await this.mediaFetcher.resolve(post);
+      const result =
+        job.data.action === "edit"
+          ? await this.applyEdit(resolved, adapter)
+          : await adapter.post(resolved);
+
+      this.releaseMedia(data, adapter);
+      if (!result) {
+        return;
+      }
 
       this.db.recordPlatformSuccess({
         uri: post.sourceUri,
-        platform: job.data.platform,
+        platform: adapter.target,
         remoteId: result.id,
         remoteIds: result.threadIds,
         remoteUrl: result.url
       });
+
+      if (result.supersededIds && result.supersededIds.length > 0) {
+        await this.deleteSuperseded(adapter, post.sourceUri, result.supersededIds);
+      }
     } catch (error) {
       const statusCode = extractStatusCode(error);
 
-      if (error instanceof TwitterDailyLimitError && job.data.platform === "twitter") {
-        await this.queueManager.queues.twitter.add(
-          "twitter-crosspost-delayed",
+      if (error instanceof DailyLimitError) {
+        const forecastAt = error.forecastAt.toISOString();
+        await this.queueManager.queueFor(adapter.target).add(
+          `${adapter.target}-crosspost-delayed`,
           job.data,
           {
             delay: error.delayMs,
-            jobId: createJobId("twitter", post.sourceUri, `defer-${error.day}`)
+            priority: error.priority,
+            jobId: createJobId(
+              adapter.target,
+              post.sourceUri,
+              `${job.data.action}-defer-${Math.floor(Date.now() / 1000)}`
+            )
           }
         );
 
+        this.db.recordDeferredJob({
+          target: adapter.target,
+          uri: post.sourceUri,
+          action: job.data.action,
+          priority: error.priority,
+          posts: error.attemptedPosts,
+          reason: error.message,
+          forecastAt
+        });
+
         this.log.warn(
           {
+            target: adapter.target,
             sourceUri: post.sourceUri,
-            day: error.day,
             currentCount: error.currentCount,
             limit: error.limit,
-            delayedForMs: error.delayMs
+            priority: error.priority,
+            posts: error.attemptedPosts,
+            forecastAt
           },
-          "Twitter daily cap reached; job delayed to next UTC day"
+          "Rolling 24h budget exhausted; job deferred until its forecast slot"
         );
         return;
       }
 
-      if (job.data.platform === "twitter" && statusCode === 429) {
+      if (error instanceof PostDroppedError) {
+        this.db.recordPlatformCancelled({
+          uri: post.sourceUri,
+          platform: adapter.target
+        });
+        this.releaseMedia(data, adapter);
+        this.log.warn(
+          {
+            target: adapter.target,
+            sourceUri: post.sourceUri,
+            reason: error.message
+          },
+          "Post dropped instead of published"
+        );
+        return;
+      }
+
+      if (error instanceof SessionExpiredError) {
+        await this.deferUntilSessionRestored(job, adapter, post.sourceUri, error);
+        return;
+      }
+
+      if (error instanceof DependencyNotReadyError) {
+        const delayMs = Math.max(error.retryAt ? error.retryAt.getTime() - Date.now() : 0, DEPENDENCY_RETRY_MS);
+        await this.queueManager.queueFor(adapter.target).add(
+          `${adapter.target}-crosspost-waiting-parent`,
+          job.data,
+          {
+            delay: delayMs,
+            priority: job.opts.priority,
+            jobId: createJobId(
+              adapter.target,
+              post.sourceUri,
+              `${job.data.action}-dep-${Math.floor(Date.now() / 1000)}`
+            )
+          }
+        );
+
+        this.log.info(
+          {
+            target: adapter.target,
+            sourceUri: post.sourceUri,
+            retryAt: new Date(Date.now() + delayMs).toISOString()
+          },
+          "Reply parent is not published on the target yet; deferred job behind it"
+        );
+        return;
+      }
+
+      if (statusCode === 429) {
         const delayMs = Math.max(
-          extractTwitter429DelayMs(error) ?? env.TWITTER_MIN_POST_INTERVAL_MS,
+          extractRateLimitDelayMs(error) ?? this.targets.get(adapter.target)?.minPostIntervalMs ?? MIN_429_DELAY_MS,
           MIN_429_DELAY_MS
         );
 
-        await this.queueManager.queues.twitter.add(
-          "twitter-crosspost-rate-limited",
+        await this.queueManager.queueFor(adapter.target).add(
+          `${adapter.target}-crosspost-rate-limited`,
           job.data,
           {
             delay: delayMs,
             jobId: createJobId(
-              "twitter",
+              adapter.target,
               post.sourceUri,
-              `rl-${Math.floor(Date.now() / 1000)}`
+              `${job.data.action}-rl-${Math.floor(Date.now() / 1000)}`
             )
           }
         );
 
         this.log.warn(
           {
+            target: adapter.target,
             sourceUri: post.sourceUri,
             delayedForMs: delayMs,
             retryAt: new Date(Date.now() + delayMs).toISOString()
           },
-          "Twitter returned 429; delayed job before retrying"
+          "Target returned 429; delayed job before retrying"
         );
         return;
       }
@@ -303,10 +486,15 @@ export class CrosspostWorkers {
       const message = error instanceof Error ? error.message : String(error);
       this.db.recordPlatformFailure({
         uri: post.sourceUri,
-        platform: job.data.platform,
+        platform: adapter.target,
         error: message
       });
 
+      const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+      if (isPermanentClientError(statusCode) || finalAttempt) {
+        this.releaseMedia(data, adapter);
+      }
+
       if (isPermanentClientError(statusCode)) {
         throw new UnrecoverableError(message);
       }
@@ -315,6 +503,86 @@ export class CrosspostWorkers {
     }
   }
 
+  /**
+   * Called once a job is finished with for good: published, cancelled, dropped or failed
+   * without retries left. Re-queued copies share the reference and keep the media.
+   */
+  private releaseMedia(data: CrossPostPublishJobData | CrossPostEditJobData, adapter: PlatformAdapter): void {
+    this.queueManager.mediaStore.release(mediaHolderFor(adapter.target, data));
+  }
+
+  /**
+   * Re-queues the job on the target's queue, which the session monitor pauses until a probe
+   * succeeds again, so the job is neither failed nor retried against a dead session.
+   */
+  private async deferUntilSessionRestored(
+    job: Job<CrossPostJobData>,
+    adapter: PlatformAdapter,
+    sourceUri: string,
+    error: SessionExpiredError
+  ): Promise<void> {
+    await this.sessionMonitor.markExpired(adapter.target, error.message);
+
+    await this.queueManager.queueFor(adapter.target).add(`${adapter.target}-crosspost-session`, job.data, {
+      jobId: createJobId(adapter.target, sourceUri, `${job.data.action}-session-${Math.floor(Date.now() / 1000)}`)
+    });
+
+    this.log.warn(
+      {
+        target: adapter.target,
+        sourceUri,
+        action: job.data.action,
+        error: error.message
+      },
+      "Target session expired; job held until the queue resumes"
+    );
+  }
+
+  /**
+   * Edits the published copy natively when the adapter supports it, otherwise applies
+   * EDIT_FALLBACK_POLICY. Returns null when the edit is intentionally not propagated.
+   */
+  private async applyEdit(post: CrossPost, adapter: PlatformAdapter): Promise<PostResult | null> {
+    if (adapter.edit) {
+      return adapter.edit(post);
+    }
+
+    if (env.EDIT_FALLBACK_POLICY === "ignore") {
+      this.log.info(
+        { target: adapter.target, sourceUri: post.sourceUri },
+        "Platform cannot edit posts; keeping original per EDIT_FALLBACK_POLICY"
+      );
+      return null;
+    }
+
+    // Publish the new copy first: if it is deferred (budget, rate limit) or fails, the old
+    // one stays up instead of the post vanishing until the retry.
+    const supersededIds = this.db.getRemoteIdsForDeletion(post.sourceUri, adapter.target);
+    const result = await adapter.post(post);
+    return { ...result, supersededIds };
+  }
+
+  /**
+   * Deletes the copies an edit replaced. Runs after the new ids are recorded; a failed
+   * delete is queued as its own job so the old copy is never lost track of.
+   */
+  private async deleteSuperseded(adapter: PlatformAdapter, sourceUri: string, remoteIds: string[]): Promise<void> {
+    try {
+      await adapter.delete(sourceUri, remoteIds);
+    } catch (error) {
+      this.log.warn(
+        {
+          target: adapter.target,
+          sourceUri,
+          remoteIds,
+          error: error instanceof Error ? error.message : String(error)
+        },
+        "Published edited post but could not delete the previous copy; retrying in a delete job"
+      );
+      await this.queueManager.enqueueSupersededDelete(adapter.target, sourceUri, remoteIds);
+    }
+  }
+
   async close(): Promise<void> {
     await Promise.all(this.workers.map((worker) => worker.close()));
   }
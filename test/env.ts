@@ -0,0 +1,5 @@
+// Imported first by every test: the config module validates process.env when it loads.
+process.env.BLUESKY_IDENTIFIER ??= "test.bsky.social";
+process.env.BLUESKY_PASSWORD ??= "test-password";
+process.env.LOG_LEVEL ??= "fatal";
+process.env.BLUESKY_POLL_INTERVAL_MS ??= "50";
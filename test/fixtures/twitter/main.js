@@ -0,0 +1 @@
+(self.webpackChunk_twitter_responsive_web=self.webpackChunk_twitter_responsive_web||[]).push([["main"],{12345:e=>{e.exports={queryId:"xT36w0XM3A8jDynpkram2A",operationName:"CreateTweet",operationType:"mutation",metadata:{featureSwitches:["premium_content_api_read_enabled","communities_web_enable_tweet_community_results_fetch","c9s_tweet_anatomy_moderator_badge_enabled","responsive_web_grok_analyze_button_fetch_trends_enabled","longform_notetweets_inline_media_enabled","responsive_web_enhance_cards_enabled","tweet_awards_web_tipping_enabled","brand_new_flag_enabled"],fieldToggles:[]}}},12346:e=>{e.exports={queryId:"SwPNaebRR5O3pSZ1prFmcw",operationName:"CreateNoteTweet",operationType:"mutation",metadata:{featureSwitches:["premium_content_api_read_enabled","longform_notetweets_inline_media_enabled"],fieldToggles:[]}}},12347:e=>{e.exports={queryId:"VaenaVgh5q5ih7kvyVjgtg",operationName:"DeleteTweet",operationType:"mutation",metadata:{featureSwitches:[],fieldToggles:[]}}},12348:e=>{e.exports={queryId:"Y9WM4Id6UcGFE8Z-hbnixw",operationName:"UserTweets",operationType:"query",metadata:{featureSwitches:["rweb_tipjar_consumption_enabled"],fieldToggles:["withArticlePlainText"]}}}}]);
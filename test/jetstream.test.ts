@@ -0,0 +1,218 @@
+import "./env.js";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, afterEach, before, beforeEach, test } from "node:test";
+import { WebSocketServer, type WebSocket } from "ws";
+import { env } from "../src/config/env.js";
+import { AppDatabase } from "../src/core/db.js";
+import { BlueskyJetstreamSubscriber } from "../src/core/jetstream.js";
+import type { BlueskySourceAdapter } from "../src/adapters/bluesky.js";
+import type { BlueskyPoller } from "../src/core/poller.js";
+
+const DID = "did:plc:tester";
+const COLLECTION = "app.bsky.feed.post";
+
+/** A local stand-in for Jetstream: records each connection's URL and lets the test push events. */
+class FakeJetstream {
+  readonly server = new WebSocketServer({ port: 0 });
+  readonly urls: URL[] = [];
+  private socket: WebSocket | null = null;
+  private connectedResolvers: Array<() => void> = [];
+
+  constructor() {
+    this.server.on("connection", (socket, request) => {
+      this.socket = socket;
+      this.urls.push(new URL(request.url ?? "/", "ws://localhost"));
+      for (const resolve of this.connectedResolvers.splice(0)) {
+        resolve();
+      }
+    });
+  }
+
+  get url(): string {
+    const address = this.server.address();
+    return typeof address === "object" && address ? `ws://127.0.0.1:${address.port}/subscribe` : "";
+  }
+
+  connected(): Promise<void> {
+    return this.socket ? Promise.resolve() : new Promise((resolve) => this.connectedResolvers.push(resolve));
+  }
+
+  send(event: object): void {
+    this.socket?.send(JSON.stringify(event));
+  }
+
+  commit(operation: "create" | "update" | "delete", rkey: string, timeUs: number, cid?: string): void {
+    this.send({ did: DID, time_us: timeUs, kind: "commit", commit: { operation, collection: COLLECTION, rkey, cid } });
+  }
+
+  dropConnection(): void {
+    this.socket?.terminate();
+    this.socket = null;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+class FakeSource {
+  readonly did = DID;
+  readonly posts = new Map<string, { post: { uri: string; cid: string } }>();
+  failNext = 0;
+
+  async fetchOwnPostsByUri(uris: string[]): Promise<any[]> {
+    if (this.failNext > 0) {
+      this.failNext -= 1;
+      throw new Error("appview unavailable");
+    }
+
+    return uris.flatMap((uri) => (this.posts.has(uri) ? [this.posts.get(uri)] : []));
+  }
+}
+
+class FakePoller {
+  readonly ingested: string[] = [];
+  readonly deleted: string[] = [];
+  streaming = false;
+  feedPollRequested = false;
+
+  setStreamingActive(active: boolean): void {
+    this.streaming = active;
+  }
+
+  async ingestFeedItems(items: any[]): Promise<void> {
+    this.ingested.push(...items.map((item) => item.post.uri));
+  }
+
+  async handleDeletedSourcePost(uri: string): Promise<void> {
+    this.deleted.push(uri);
+  }
+
+  requestFeedPoll(): void {
+    this.feedPollRequested = true;
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+const uriFor = (rkey: string) => `at://${DID}/${COLLECTION}/${rkey}`;
+
+let jetstream: FakeJetstream;
+let tempDir: string;
+let db: AppDatabase;
+let source: FakeSource;
+let poller: FakePoller;
+let subscriber: BlueskyJetstreamSubscriber;
+
+before(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "jetstream-test-"));
+});
+
+after(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  jetstream = new FakeJetstream();
+  await new Promise((resolve) => jetstream.server.once("listening", resolve));
+  (env as { BLUESKY_JETSTREAM_URL: string }).BLUESKY_JETSTREAM_URL = jetstream.url;
+  (env as { BLUESKY_JETSTREAM_RECONNECT_MS: number }).BLUESKY_JETSTREAM_RECONNECT_MS = 20;
+
+  db = new AppDatabase(path.join(tempDir, `${Math.random().toString(36).slice(2)}.db`));
+  source = new FakeSource();
+  poller = new FakePoller();
+  subscriber = new BlueskyJetstreamSubscriber({
+    source: source as unknown as BlueskySourceAdapter,
+    db,
+    poller: poller as unknown as BlueskyPoller,
+    hydrateRetryDelayMs: 5
+  });
+});
+
+afterEach(async () => {
+  await subscriber.stop();
+  await jetstream.close();
+  db.close();
+});
+
+test("subscribes for our DID and feeds created and deleted posts into the poller", async () => {
+  subscriber.start();
+  await jetstream.connected();
+  await waitFor(() => poller.streaming);
+
+  const [url] = jetstream.urls;
+  assert.equal(url.searchParams.get("wantedDids"), DID);
+  assert.equal(url.searchParams.get("wantedCollections"), COLLECTION);
+
+  source.posts.set(uriFor("a"), { post: { uri: uriFor("a"), cid: "cid-a" } });
+  jetstream.commit("create", "a", 1_000_000, "cid-a");
+  jetstream.send({
+    did: "did:plc:someone-else",
+    time_us: 1_000_001,
+    kind: "commit",
+    commit: { operation: "create", collection: COLLECTION, rkey: "x" }
+  });
+  jetstream.commit("delete", "b", 2_000_000);
+
+  await waitFor(() => poller.deleted.length === 1);
+  assert.deepEqual(poller.ingested, [uriFor("a")]);
+  assert.deepEqual(poller.deleted, [uriFor("b")]);
+  assert.equal(db.getSyncState(`jetstream_cursor:${DID}`), "2000000");
+});
+
+test("resumes from the stored cursor and falls back to polling while disconnected", async () => {
+  db.setSyncState(`jetstream_cursor:${DID}`, "50000000");
+  subscriber.start();
+  await jetstream.connected();
+  await waitFor(() => poller.streaming);
+
+  assert.equal(jetstream.urls[0].searchParams.get("cursor"), "45000000");
+
+  jetstream.dropConnection();
+  await waitFor(() => !poller.streaming);
+  await jetstream.connected();
+  await waitFor(() => poller.streaming);
+  assert.equal(jetstream.urls.length, 2);
+});
+
+test("retries a failed appview request before giving up on a post", async () => {
+  subscriber.start();
+  await jetstream.connected();
+
+  source.failNext = 1;
+  source.posts.set(uriFor("e"), { post: { uri: uriFor("e"), cid: "cid-e" } });
+  jetstream.commit("create", "e", 5_000_000, "cid-e");
+  jetstream.commit("delete", "f", 6_000_000);
+
+  await waitFor(() => poller.deleted.length === 1);
+  assert.deepEqual(poller.ingested, [uriFor("e")]);
+  assert.equal(db.getSyncState(`jetstream_cursor:${DID}`), "6000000");
+});
+
+test("retries posts that failed to hydrate and holds the cursor before them", async () => {
+  subscriber.start();
+  await jetstream.connected();
+
+  // All four attempts of the first hydration fail, and so does the first periodic retry.
+  source.failNext = 5;
+  source.posts.set(uriFor("c"), { post: { uri: uriFor("c"), cid: "cid-c" } });
+  jetstream.commit("create", "c", 3_000_000, "cid-c");
+  jetstream.commit("delete", "d", 4_000_000);
+
+  await waitFor(() => poller.deleted.length === 1);
+  assert.equal(db.getSyncState(`jetstream_cursor:${DID}`), "2999999");
+
+  await waitFor(() => poller.ingested.includes(uriFor("c")));
+  await waitFor(() => db.getSyncState(`jetstream_cursor:${DID}`) === "4000000");
+});
@@ -0,0 +1,75 @@
+import "./env.js";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { test } from "node:test";
+import {
+  CREATE_TWEET_FEATURES,
+  findMainBundleUrl,
+  isStaleOperationError,
+  parseFeatureSwitchValues,
+  parseGraphqlOperations,
+  resolveOperationFeatures
+} from "../src/adapters/twitter-graphql.js";
+
+// Trimmed copies of the web client's HTML shell and main bundle.
+const html = fs.readFileSync(new URL("./fixtures/twitter/home.html", import.meta.url), "utf8");
+const bundle = fs.readFileSync(new URL("./fixtures/twitter/main.js", import.meta.url), "utf8");
+
+test("finds the main client bundle in the HTML shell", () => {
+  assert.equal(findMainBundleUrl(html), "https://abs.twimg.com/responsive-web/client-web/main.9d2c1f7a.js");
+  assert.equal(findMainBundleUrl("<html></html>"), undefined);
+});
+
+test("extracts the operations from a saved bundle", () => {
+  const operations = parseGraphqlOperations(bundle);
+
+  assert.deepEqual([...operations.keys()], ["CreateTweet", "CreateNoteTweet", "DeleteTweet", "UserTweets"]);
+  assert.equal(operations.get("CreateTweet")?.queryId, "xT36w0XM3A8jDynpkram2A");
+  assert.equal(operations.get("CreateTweet")?.operationType, "mutation");
+  assert.equal(operations.get("CreateTweet")?.featureSwitches.length, 8);
+  assert.equal(operations.get("DeleteTweet")?.queryId, "VaenaVgh5q5ih7kvyVjgtg");
+  assert.deepEqual(operations.get("DeleteTweet")?.featureSwitches, []);
+  assert.equal(operations.get("UserTweets")?.queryId, "Y9WM4Id6UcGFE8Z-hbnixw");
+});
+
+test("reads feature switch defaults, keeping the first value per name", () => {
+  const values = parseFeatureSwitchValues(html);
+
+  assert.equal(values.get("premium_content_api_read_enabled"), false);
+  assert.equal(values.get("longform_notetweets_inline_media_enabled"), true);
+  // The default config comes before the per-user overrides in the shell.
+  assert.equal(values.get("c9s_tweet_anatomy_moderator_badge_enabled"), true);
+});
+
+test("resolves declared flags from the shell, then known values, then false", () => {
+  const operation = parseGraphqlOperations(bundle).get("CreateTweet")!;
+  const features = resolveOperationFeatures(operation, parseFeatureSwitchValues(html));
+
+  assert.deepEqual(Object.keys(features), operation.featureSwitches);
+  assert.equal(features.communities_web_enable_tweet_community_results_fetch, true);
+  assert.equal(features.tweet_awards_web_tipping_enabled, CREATE_TWEET_FEATURES.tweet_awards_web_tipping_enabled);
+  assert.equal(features.brand_new_flag_enabled, false);
+});
+
+test("treats only unknown-operation failures as stale query IDs", () => {
+  const httpError = (statusCode: number, message: string, body: string) =>
+    Object.assign(new Error(message), { statusCode, body });
+
+  assert.equal(isStaleOperationError(httpError(404, "Twitter request failed (404): Not Found", "")), true);
+  assert.equal(isStaleOperationError(new Error("Query: Unspecified")), true);
+  assert.equal(
+    isStaleOperationError(
+      httpError(400, "The following features cannot be null: longform_notetweets_inline_media_enabled", "{}")
+    ),
+    true
+  );
+
+  assert.equal(
+    isStaleOperationError(
+      httpError(404, "No status found with that ID.", '{"errors":[{"code":144,"message":"No status found with that ID."}]}')
+    ),
+    false
+  );
+  assert.equal(isStaleOperationError(new Error("Twitter request failed (404): Not Found")), false);
+  assert.equal(isStaleOperationError(httpError(500, "Internal error", "")), false);
+});